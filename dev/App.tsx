@@ -3,7 +3,14 @@ import queryString from 'query-string'
 import Iframe from './iframe'
 import { debounce } from '@solid-primitives/scheduled'
 import { Component, createSignal, For, JSX, Show } from 'solid-js'
-import Cropper, { Area, Point } from '../src'
+import Cropper, {
+  Area,
+  createCropState,
+  GesturePolicy,
+  parseCropState,
+  Point,
+  serializeCropState,
+} from '../src'
 
 const TEST_IMAGES = {
   './images/dog.jpeg': 'Landscape',
@@ -36,23 +43,16 @@ type State = {
   croppedAreaPixels: Area | null
   initialCroppedAreaPercentages: Area | undefined
   initialCroppedAreaPixels: Area | undefined
-  requireCtrlKey: boolean
-  requireMultiTouch: boolean
+  gesturePolicy: GesturePolicy
   iframed: boolean
 }
 
-const hashNames = ['imageSrc', 'hashType', 'x', 'y', 'width', 'height', 'rotation'] as const
-
+// the hash is `<imageSrc>,<hashType>,<crop state encoded for urls>`
 const debouncedUpdateHash = debounce(
-  ({ hashType, croppedArea, croppedAreaPixels, imageSrc, rotation }: State) => {
-    if (hashType === 'percent') {
-      if (croppedArea) {
-        window.location.hash = `${imageSrc},percent,${croppedArea.x},${croppedArea.y},${croppedArea.width},${croppedArea.height},${rotation}`
-      }
-    } else {
-      if (croppedAreaPixels) {
-        window.location.hash = `${imageSrc},pixel,${croppedAreaPixels.x},${croppedAreaPixels.y},${croppedAreaPixels.width},${croppedAreaPixels.height},${rotation}`
-      }
+  ({ hashType, croppedArea, croppedAreaPixels, imageSrc, rotation, flip }: State) => {
+    if (croppedArea && croppedAreaPixels) {
+      const cropState = createCropState(croppedArea, croppedAreaPixels, { rotation, flip })
+      window.location.hash = `${imageSrc},${hashType},${serializeCropState(cropState, 'url')}`
     }
   },
   150,
@@ -60,41 +60,31 @@ const debouncedUpdateHash = debounce(
 
 const App: Component = () => {
   let rotation = 0
+  let flip = { horizontal: false, vertical: false }
   let initialCroppedAreaPercentages: Area | undefined = undefined
   let initialCroppedAreaPixels: Area | undefined = undefined
   let hashType: HashType = 'percent'
   let imageSrc = imageSrcFromQuery
   const query = new URLSearchParams(window.location.search)
   if (window && !urlArgs.setInitialCrop) {
-    const hashArray = window.location.hash.slice(1).split(',')
-
-    if (hashArray.length === hashNames.length) {
-      const hashInfo = {} as Record<(typeof hashNames)[number], string>
-      hashNames.forEach((key, index) => (hashInfo[key] = hashArray[index]!))
-
-      const {
-        rotation: rotationFromHash,
-        hashType: hashTypeFromHash,
-        imageSrc: imageSrcFromHash,
-        ...croppedArea
-      } = hashInfo
+    const [imageSrcFromHash, hashTypeFromHash, cropStateFromHash] = window.location.hash
+      .slice(1)
+      .split(',')
 
-      rotation = parseFloat(rotationFromHash)
-      imageSrc = imageSrcFromHash
-
-      // create a new object called parsedCroppedArea with values converted to floats
-      const parsedCroppedArea = {
-        x: parseFloat(croppedArea.x),
-        y: parseFloat(croppedArea.y),
-        width: parseFloat(croppedArea.width),
-        height: parseFloat(croppedArea.height),
-      } as Area
-
-      if (hashTypeFromHash === 'percent') {
-        initialCroppedAreaPercentages = parsedCroppedArea
-      } else {
-        initialCroppedAreaPixels = parsedCroppedArea
-        hashType = 'pixel'
+    if (imageSrcFromHash && cropStateFromHash) {
+      try {
+        const cropState = parseCropState(cropStateFromHash, 'url')
+        imageSrc = imageSrcFromHash
+        rotation = cropState.rotation
+        flip = cropState.flip
+        hashType = hashTypeFromHash === 'pixel' ? 'pixel' : 'percent'
+        if (hashType === 'percent') {
+          initialCroppedAreaPercentages = cropState.croppedArea
+        } else {
+          initialCroppedAreaPixels = cropState.croppedAreaPixels
+        }
+      } catch (e) {
+        console.warn('Ignoring the crop saved in the hash', e)
       }
     }
   }
@@ -102,7 +92,7 @@ const App: Component = () => {
     imageSrc,
     crop: { x: 0, y: 0 },
     rotation,
-    flip: { horizontal: false, vertical: false },
+    flip,
     hashType,
     zoom: 1,
     aspect: 4 / 3,
@@ -114,8 +104,7 @@ const App: Component = () => {
     croppedAreaPixels: null,
     initialCroppedAreaPercentages,
     initialCroppedAreaPixels,
-    requireCtrlKey: false,
-    requireMultiTouch: false,
+    gesturePolicy: 'always',
     iframed: !!query.get('iframed'),
   } as State)
   const onCropChange = (crop: Point) => {
@@ -224,7 +213,6 @@ const App: Component = () => {
                 onChange={() =>
                   setState(prev => ({
                     ...prev,
-                    rotation: 360 - prev.rotation,
                     flip: {
                       horizontal: !prev.flip.horizontal,
                       vertical: prev.flip.vertical,
@@ -241,7 +229,6 @@ const App: Component = () => {
                 onChange={() =>
                   setState(prev => ({
                     ...prev,
-                    rotation: 360 - prev.rotation,
                     flip: {
                       horizontal: prev.flip.horizontal,
                       vertical: !prev.flip.vertical,
@@ -251,32 +238,24 @@ const App: Component = () => {
               />
               Flip Vertical
             </label>
-            <label>
-              <input
-                type="checkbox"
-                checked={state().requireCtrlKey}
-                onChange={() =>
-                  setState(prev => ({
-                    ...prev,
-                    requireCtrlKey: !prev.requireCtrlKey,
-                  }))
-                }
-              />
-              Require Ctrl Key
-            </label>
-            <label>
-              <input
-                type="checkbox"
-                checked={state().requireMultiTouch}
-                onChange={() =>
-                  setState(prev => ({
-                    ...prev,
-                    requireMultiTouch: !prev.requireMultiTouch,
-                  }))
-                }
-              />
-              Require Multi-Touch
-            </label>
+            <div>
+              <label>
+                Gestures:
+                <select
+                  value={state().gesturePolicy}
+                  onChange={e =>
+                    setState(prev => ({
+                      ...prev,
+                      gesturePolicy: e.currentTarget.value as GesturePolicy,
+                    }))
+                  }
+                >
+                  <option value="always">Always</option>
+                  <option value="modifierKey">Require Ctrl Key</option>
+                  <option value="twoFingers">Require Multi-Touch</option>
+                </select>
+              </label>
+            </div>
             <div>
               <label>
                 Save to hash:
@@ -336,26 +315,14 @@ const App: Component = () => {
             image={state().imageSrc}
             crop={state().crop}
             rotation={state().rotation}
+            flip={state().flip}
             zoom={state().zoom}
             aspect={state().aspect}
             cropShape={state().cropShape}
             showGrid={state().showGrid}
             zoomSpeed={state().zoomSpeed}
             restrictPosition={state().restrictPosition}
-            onWheelRequest={
-              state().requireCtrlKey
-                ? e => {
-                    return e.ctrlKey
-                  }
-                : undefined
-            }
-            onTouchRequest={
-              state().requireMultiTouch
-                ? e => {
-                    return e.touches.length > 1
-                  }
-                : undefined
-            }
+            gesturePolicy={state().gesturePolicy}
             onCropChange={onCropChange}
             onRotationChange={onRotationChange}
             onCropComplete={onCropComplete}
@@ -369,13 +336,6 @@ const App: Component = () => {
                 : state().initialCroppedAreaPixels
             }
             initialCroppedAreaPercentages={state().initialCroppedAreaPercentages}
-            transform={[
-              `translate(${state().crop.x}px, ${state().crop.y}px)`,
-              `rotateZ(${state().rotation}deg)`,
-              `rotateY(${state().flip.horizontal ? 180 : 0}deg)`,
-              `rotateX(${state().flip.vertical ? 180 : 0}deg)`,
-              `scale(${state().zoom})`,
-            ].join(' ')}
           />
         </div>
       </div>
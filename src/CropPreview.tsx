@@ -0,0 +1,193 @@
+import {
+  Component,
+  createEffect,
+  createMemo,
+  createSignal,
+  createUniqueId,
+  For,
+  JSX,
+  mergeProps,
+  Show,
+} from 'solid-js'
+import { Area, CropShape, Flip, ImageSource, Size, VideoSrc } from './types'
+import { getCropShapeMask, isCssCropShape } from './cropShape'
+import { rotateSize } from './helpers'
+import { createImageUrl } from './createImageUrl'
+
+export type CropPreviewProps = {
+  image?: ImageSource
+  video?: string | VideoSrc[]
+  // the croppedArea given to onCropAreaChange or onCropComplete
+  croppedArea: Area
+  rotation?: number
+  flip?: Flip
+  cropShape?: CropShape
+  // size of the crop area of the Cropper (see onCropSizeChange), used to scale a roundedRect radius
+  cropSize?: Size
+  // the height follows the aspect of the cropped area
+  width?: number | string
+  // time of the video to show, e.g. the currentTime given to onCropComplete
+  currentTime?: number
+  onMediaError?: (error: Error) => void
+  class?: string
+  style?: JSX.CSSProperties
+}
+
+/**
+ * Display the cropped area of a media at any size, like getCroppedImage would output it.
+ * The media is positioned with css only, so it can follow onCropAreaChange during a drag.
+ */
+const CropPreview: Component<CropPreviewProps> = paramProps => {
+  const props = mergeProps(
+    {
+      rotation: 0,
+      flip: { horizontal: false, vertical: false },
+      cropShape: 'rect' as CropShape,
+      width: '100%',
+    },
+    paramProps,
+  )
+  const clipPathId = createUniqueId()
+  let videoRef: HTMLVideoElement | undefined
+  const [naturalSize, setNaturalSize] = createSignal<Size | null>(null)
+  const onMediaError = (error: Error) => props.onMediaError && props.onMediaError(error)
+  const imageUrl = createImageUrl(() => props.image, onMediaError)
+
+  // the cropped area is relative to the bounding box of the rotated media
+  const layout = createMemo(() => {
+    const size = naturalSize()
+    if (!size) return null
+    const { croppedArea } = props
+    const bBox = rotateSize(size.width, size.height, props.rotation)
+    const width = ((size.width / bBox.width) * 10000) / croppedArea.width
+    const height = ((size.height / bBox.height) * 10000) / croppedArea.height
+    return {
+      aspect: (croppedArea.width * bBox.width) / (croppedArea.height * bBox.height),
+      width,
+      height,
+      left: ((50 - croppedArea.x) * 100) / croppedArea.width - width / 2,
+      top: ((50 - croppedArea.y) * 100) / croppedArea.height - height / 2,
+    }
+  })
+
+  const cropShapeMask = createMemo(() =>
+    isCssCropShape(props.cropShape)
+      ? undefined
+      : getCropShapeMask(props.cropShape, props.cropSize ?? { width: 100, height: 100 }),
+  )
+  const borderRadius = createMemo(() => {
+    const shape = props.cropShape
+    if (shape === 'round' || shape === 'ellipse') return '50%'
+    if (typeof shape !== 'object' || shape.type !== 'roundedRect') return undefined
+    // the radius is given in pixels of the crop area of the Cropper
+    return props.cropSize
+      ? `${(shape.radius / props.cropSize.width) * 100}% / ${
+          (shape.radius / props.cropSize.height) * 100
+        }%`
+      : `${shape.radius}px`
+  })
+
+  createEffect(() => {
+    if (videoRef && props.currentTime !== undefined && videoRef.currentTime !== props.currentTime) {
+      videoRef.currentTime = props.currentTime
+    }
+  })
+
+  // the cropped area is expressed on the unflipped media, the flip applies to the result
+  const flipTransform = () =>
+    `scale(${props.flip.horizontal ? -1 : 1}, ${props.flip.vertical ? -1 : 1})`
+
+  const mediaStyle = (): JSX.CSSProperties => {
+    const current = layout()
+    return {
+      position: 'absolute',
+      'max-width': 'none',
+      ...(current
+        ? {
+            left: `${current.left}%`,
+            top: `${current.top}%`,
+            width: `${current.width}%`,
+            height: `${current.height}%`,
+            transform: `rotate(${props.rotation}deg)`,
+          }
+        : { visibility: 'hidden' }),
+    }
+  }
+
+  return (
+    <div
+      class={props.class}
+      style={{
+        position: 'relative',
+        overflow: 'hidden',
+        width: typeof props.width === 'number' ? `${props.width}px` : props.width,
+        ...(layout() && { 'aspect-ratio': String(layout()!.aspect) }),
+        ...(borderRadius() && { 'border-radius': borderRadius() }),
+        ...(cropShapeMask() && { 'clip-path': `url(#${clipPathId})` }),
+        ...props.style,
+      }}
+      data-testid="crop-preview"
+    >
+      <div
+        style={{
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          width: '100%',
+          height: '100%',
+          transform: flipTransform(),
+        }}
+      >
+        <Show
+          when={props.video}
+          fallback={
+            <img
+              src={imageUrl()}
+              alt=""
+              style={mediaStyle()}
+              onLoad={e =>
+                setNaturalSize({
+                  width: e.currentTarget.naturalWidth,
+                  height: e.currentTarget.naturalHeight,
+                })
+              }
+              onError={() => onMediaError(new Error('Unable to load the image'))}
+            />
+          }
+        >
+          <video
+            ref={videoRef}
+            style={mediaStyle()}
+            muted
+            playsinline
+            onLoadedMetadata={e => {
+              setNaturalSize({
+                width: e.currentTarget.videoWidth,
+                height: e.currentTarget.videoHeight,
+              })
+              if (props.currentTime !== undefined) e.currentTarget.currentTime = props.currentTime
+            }}
+          >
+            <For each={Array.isArray(props.video) ? props.video : [{ src: props.video! }]}>
+              {item => <source {...item} />}
+            </For>
+          </video>
+        </Show>
+      </div>
+      <Show when={cropShapeMask()}>
+        <svg width="0" height="0" style={{ position: 'absolute' }} aria-hidden="true">
+          <clipPath id={clipPathId} clipPathUnits="objectBoundingBox">
+            <path
+              d={cropShapeMask()!.path}
+              transform={`scale(${1 / cropShapeMask()!.viewBox.width} ${
+                1 / cropShapeMask()!.viewBox.height
+              })`}
+            />
+          </clipPath>
+        </svg>
+      </Show>
+    </div>
+  )
+}
+
+export default CropPreview
@@ -1,23 +1,61 @@
 import normalizeWheel from 'normalize-wheel'
-import { Area, MediaSize, Point, Size, VideoSrc } from './types'
 import {
-  getCropSize,
-  restrictPosition,
+  Area,
+  CropAreaHandle,
+  CropDetails,
+  CropGuide,
+  CropShape,
+  ExifOrientation,
+  Flip,
+  FocalPoint,
+  GestureHint,
+  GesturePolicy,
+  ImageSource,
+  MediaSize,
+  ObjectFit,
+  Point,
+  Size,
+  TimeRange,
+  VideoSrc,
+} from './types'
+import { getCropShapeMask, isCssCropShape } from './cropShape'
+import { getCropGuideLines } from './guides'
+import { createImageUrl } from './createImageUrl'
+import { getExifOrientation } from './exif'
+import {
+  getCropAreaSize,
+  getCroppedAreas,
+  getInitialCrop,
+  getRenderedMediaSize,
+  getZoomedCrop,
+  getZoomRange,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  restrictCropPosition,
+  ZoomRange,
+} from './cropEngine'
+import {
   getDistanceBetweenPoints,
   getRotationBetweenPoints,
-  computeCroppedArea,
   getCenter,
   getInitialCropFromCroppedAreaPixels,
-  getInitialCropFromCroppedAreaPercentages,
   classNames,
   clamp,
+  getMediaZoom,
+  intersectAreas,
+  resizeCropArea,
+  restrictCropAreaOffset,
+  rotateSize,
+  constrainRotation,
 } from './helpers'
+import { easeOutCubic, getVelocity, interpolate, TimedPoint } from './animation'
 import cssStyles from './styles.css'
 import {
   Component,
   createEffect,
   createMemo,
   createSignal,
+  createUniqueId,
   For,
   JSX,
   Match,
@@ -27,33 +65,36 @@ import {
   Show,
   splitProps,
   Switch,
+  untrack,
 } from 'solid-js'
 
 export type CropperProps = {
-  image?: string
+  image?: ImageSource
   video?: string | VideoSrc[]
   transform?: string
   crop: Point
   zoom?: number
   rotation?: number
+  flip?: Flip
   aspect: number
   minZoom?: number
   maxZoom?: number
-  cropShape?: 'rect' | 'round'
+  cropShape?: CropShape
   cropSize?: Size
-  objectFit?: 'contain' | 'horizontal-cover' | 'vertical-cover' | 'auto-cover'
+  objectFit?: ObjectFit
   showGrid?: boolean
   zoomSpeed?: number
   zoomWithScroll?: boolean
   onCropChange: (location: Point) => void
   onZoomChange?: (zoom: number) => void
   onRotationChange?: (rotation: number) => void
-  onCropComplete?: (croppedArea: Area, croppedAreaPixels: Area) => void
-  onCropAreaChange?: (croppedArea: Area, croppedAreaPixels: Area) => void
+  onCropComplete?: (croppedArea: Area, croppedAreaPixels: Area, details: CropDetails) => void
+  onCropAreaChange?: (croppedArea: Area, croppedAreaPixels: Area, details: CropDetails) => void
   onCropSizeChange?: (cropSize: Size) => void
   onInteractionStart?: () => void
   onInteractionEnd?: () => void
   onMediaLoaded?: (mediaSize: MediaSize) => void
+  onMediaError?: (error: Error) => void
   style?: {
     containerStyle?: JSX.CSSProperties
     mediaStyle?: JSX.CSSProperties
@@ -65,26 +106,142 @@ export type CropperProps = {
     cropAreaClassName?: string
   }
   restrictPosition?: boolean
+  resizable?: boolean
+  lockAspect?: boolean
+  minCroppedAreaPixels?: Size
+  maxCroppedAreaPixels?: Size
+  onCroppedAreaLimitChange?: (limit: CroppedAreaLimit | null) => void
   mediaProps?: JSX.ImgHTMLAttributes<HTMLElement> | JSX.VideoHTMLAttributes<HTMLElement>
   disableAutomaticStylesInjection?: boolean
   initialCroppedAreaPixels?: Area
   initialCroppedAreaPercentages?: Area
+  initialFocalPoint?: FocalPoint
+  orientation?: ExifOrientation
+  onPointerRequest?: (e: PointerEvent) => boolean
   onTouchRequest?: (e: TouchEvent) => boolean
   onWheelRequest?: (e: WheelEvent) => boolean
+  gesturePolicy?: GesturePolicy
+  formatGestureHint?: (gesture: GestureHint) => string
   setImageRef?: (ref: HTMLImageElement) => void
   setVideoRef?: (ref: HTMLVideoElement) => void
   setMediaSize?: (size: MediaSize) => void
   setCropSize?: (size: Size) => void
+  setController?: (controller: CropperController) => void
   nonce?: string
+  keyboardStep?: number
+  keyboardShiftStep?: number
+  keyboardZoomStep?: number
+  keyboardRotationStep?: number
+  ariaLabel?: string
+  ariaInstructions?: string
+  formatAnnouncement?: (state: CropperAnnouncementState) => string
+  onUndo?: () => void
+  onRedo?: () => void
+  animateChanges?: boolean
+  animationDuration?: number
+  animationEasing?: (t: number) => number
+  inertia?: boolean
+  inertiaFriction?: number
+  rotationStep?: number
+  rotationSnapAngles?: number[]
+  rotationSnapThreshold?: number
+  minRotation?: number
+  maxRotation?: number
+  zoomToCover?: boolean
+  letterbox?: boolean
+  videoControls?: boolean
+  videoTimeRange?: TimeRange
+  onVideoTimeRangeChange?: (timeRange: TimeRange) => void
+  guides?: CropGuide | CropGuide[]
+  guidesVisibility?: 'always' | 'interacting'
+  children?: JSX.Element | ((cropArea: CropAreaRenderState) => JSX.Element)
+}
+
+export type CropperController = {
+  /** Zoom around a point of the container (relative to its top-left corner), its center by default */
+  zoomTo: (zoom: number, anchorPoint?: Point) => void
+  panTo: (crop: Point) => void
+  rotateTo: (rotation: number) => void
+  /** Position and zoom the media so the crop area shows the given area of the media, in pixels */
+  fitArea: (croppedAreaPixels: Area) => void
+  reset: () => void
+}
+
+export type CroppedAreaLimit = 'minCroppedAreaPixels' | 'maxCroppedAreaPixels'
+
+export type CropAreaRenderState = {
+  readonly size: Size
+  readonly isInteracting: boolean
+}
+
+export type CropperAnnouncementState = {
+  crop: Point
+  zoom: number
+  rotation: number
+}
+
+type PropsSnapshot = Pick<
+  CropperProps,
+  'rotation' | 'aspect' | 'zoom' | 'cropSize' | 'crop' | 'flip' | 'zoomWithScroll' | 'video'
+>
+
+type MediaTransform = {
+  crop: Point
+  zoom: number
+  rotation: number
 }
 
 type State = {
   cropSize: Size | null
+  cropAreaOffset: Point
   hasWheelJustStarted: boolean
+  isInteracting: boolean
+}
+
+function formatVideoTime(time: number) {
+  const seconds = Math.floor(time || 0)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
 }
 
-const MIN_ZOOM = 1
-const MAX_ZOOM = 3
+export { MIN_ZOOM, MAX_ZOOM }
+const MIN_CROP_AREA_SIZE = 20
+const CROP_AREA_HANDLES: CropAreaHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w']
+const ANIMATION_DURATION = 300
+const INERTIA_FRICTION = 0.92
+const MIN_INERTIA_VELOCITY = 0.05 // in pixels per millisecond
+const KEYBOARD_STEP = 1
+const KEYBOARD_SHIFT_STEP = 10
+const KEYBOARD_ZOOM_STEP = 0.1
+const KEYBOARD_INTERACTION_KEYS = [
+  'ArrowUp',
+  'ArrowDown',
+  'ArrowLeft',
+  'ArrowRight',
+  '+',
+  '=',
+  '-',
+  '_',
+  '[',
+  ']',
+]
+const GESTURE_HINT_DURATION = 1500
+const MAX_PINCH_WHEEL_DELTA = 50
+
+const defaultFormatAnnouncement = ({ crop, zoom, rotation }: CropperAnnouncementState) =>
+  `Zoom ${Math.round(zoom * 100)}%, rotation ${Math.round(rotation)} degrees, ` +
+  `position ${Math.round(crop.x)}, ${Math.round(crop.y)}`
+
+const isApplePlatform = () =>
+  typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+
+const defaultFormatGestureHint = (gesture: GestureHint) =>
+  gesture === 'wheel'
+    ? `Use ${isApplePlatform() ? '⌘' : 'Ctrl'} + scroll to zoom`
+    : 'Use two fingers to move the media'
+
+function isSamePoint(a: Point | null, b: Point) {
+  return !!a && a.x === b.x && a.y === b.y
+}
 
 type GestureEvent = UIEvent & {
   rotation: number
@@ -97,6 +254,7 @@ const Cropper: Component<CropperProps> = paramProps => {
     {
       zoom: 1,
       rotation: 0,
+      flip: { horizontal: false, vertical: false },
       aspect: 4 / 3,
       maxZoom: MAX_ZOOM,
       minZoom: MIN_ZOOM,
@@ -108,7 +266,26 @@ const Cropper: Component<CropperProps> = paramProps => {
       mediaProps: {},
       zoomSpeed: 1,
       restrictPosition: true,
+      resizable: false,
+      lockAspect: false,
       zoomWithScroll: true,
+      keyboardStep: KEYBOARD_STEP,
+      keyboardShiftStep: KEYBOARD_SHIFT_STEP,
+      keyboardZoomStep: KEYBOARD_ZOOM_STEP,
+      ariaLabel: 'Image cropper',
+      ariaInstructions:
+        'Use the arrow keys to move the media, hold Shift to move faster. Use + and - to zoom.',
+      formatAnnouncement: defaultFormatAnnouncement,
+      gesturePolicy: 'always',
+      formatGestureHint: defaultFormatGestureHint,
+      animateChanges: false,
+      animationDuration: ANIMATION_DURATION,
+      animationEasing: easeOutCubic,
+      inertia: false,
+      inertiaFriction: INERTIA_FRICTION,
+      zoomToCover: false,
+      letterbox: false,
+      guidesVisibility: 'always',
     },
     paramProps,
   ) as CropperProps
@@ -127,19 +304,54 @@ const Cropper: Component<CropperProps> = paramProps => {
   let dragStartCrop: Point = { x: 0, y: 0 }
   let gestureZoomStart = 0
   let gestureRotationStart = 0
-  let isTouching = false
+  // pointers pressed on the media, in the order they went down
+  // a touch is accepted once onTouchRequest answered the touchstart it started, null until then
+  const activePointers = new Map<
+    number,
+    { point: Point; isTouch: boolean; isAccepted: boolean | null }
+  >()
+  let pointerGesture: 'drag' | 'pinch' | null = null
+  let cropAreaPointer: { id: number; handle: CropAreaHandle | 'move'; point: Point } | null = null
   let lastPinchDistance = 0
-  let lastPinchRotation = 0
+  let pinchStartAngle = 0
+  let croppedAreaLimit: CroppedAreaLimit | null = null
+  let pinchRotationStart = 0
   let rafDragTimeout: number | null = null
   let rafPinchTimeout: number | null = null
   let wheelTimer: number | null = null
+  let cropAreaDragHandle: CropAreaHandle | 'move' | null = null
+  let cropAreaDragStartSize: Size | null = null
+  let cropAreaDragStartOffset: Point = { x: 0, y: 0 }
+  let hasUserResizedCropArea = false
+  // values given to the parent by the Cropper itself, to tell them apart from changes made from outside,
+  // each one only stands for the prop change it causes
+  let emittedCrop: Point | null = null
+  let emittedZoom: number | null = null
+  let emittedRotation: number | null = null
+  let isControllerChange = false
+  let isKeyboardInteracting = false
+  let isGestureInteracting = false
+  let isMediaLoadPending = false
+  let dragSamples: TimedPoint[] = []
+  let animationFrame: number | null = null
+  let inertiaFrame: number | null = null
   let currentDoc: Document | null = typeof document !== 'undefined' ? document : null
   let currentWindow: Window | null = typeof window !== 'undefined' ? window : null
   let resizeObserver: ResizeObserver | null = null
   const [state, setState] = createSignal({
     cropSize: null,
+    cropAreaOffset: { x: 0, y: 0 },
     hasWheelJustStarted: false,
+    isInteracting: false,
   } as State)
+  const [animatedTransform, setAnimatedTransform] = createSignal<MediaTransform | null>(null)
+  const [videoTime, setVideoTime] = createSignal(0)
+  const [videoDuration, setVideoDuration] = createSignal(0)
+  const [isVideoPaused, setIsVideoPaused] = createSignal(true)
+  const [announcement, setAnnouncement] = createSignal('')
+  const [gestureHint, setGestureHint] = createSignal<GestureHint | null>(null)
+  let gestureHintTimer: number | null = null
+  const instructionsId = createUniqueId()
   onMount(() => {
     if (!currentDoc || !currentWindow) return
     if (containerRef) {
@@ -158,6 +370,9 @@ const Cropper: Component<CropperProps> = paramProps => {
       }
       props.zoomWithScroll && containerRef.addEventListener('wheel', onWheel, { passive: false })
       containerRef.addEventListener('gesturestart', onGestureStart as EventListener)
+      containerRef.addEventListener('gesturechange', onGestureMove as EventListener)
+      containerRef.addEventListener('gestureend', onGestureEnd)
+      containerRef.addEventListener('touchmove', onTouchMove, { passive: false })
     }
 
     if (!props.disableAutomaticStylesInjection) {
@@ -183,6 +398,10 @@ const Cropper: Component<CropperProps> = paramProps => {
     if (props.setVideoRef) {
       props.setVideoRef(videoRef)
     }
+
+    if (props.setController) {
+      props.setController(controller)
+    }
     onCleanup(() => {
       if (!currentDoc || !currentWindow) return
       if (typeof window.ResizeObserver === 'undefined') {
@@ -190,43 +409,108 @@ const Cropper: Component<CropperProps> = paramProps => {
       }
       resizeObserver?.disconnect()
       if (containerRef) {
-        containerRef.removeEventListener('gesturestart', preventZoomSafari)
+        containerRef.removeEventListener('gesturestart', onGestureStart as EventListener)
+        containerRef.removeEventListener('gesturechange', onGestureMove as EventListener)
+        containerRef.removeEventListener('gestureend', onGestureEnd)
+        containerRef.removeEventListener('touchmove', onTouchMove)
       }
 
       if (styleRef) {
         styleRef.parentNode?.removeChild(styleRef)
       }
 
-      cleanEvents()
       props.zoomWithScroll && clearScrollEvent()
+      animationFrame && currentWindow.cancelAnimationFrame(animationFrame)
+      inertiaFrame && currentWindow.cancelAnimationFrame(inertiaFrame)
+      gestureHintTimer && currentWindow.clearTimeout(gestureHintTimer)
     })
   })
-  createEffect((prevProps: CropperProps): CropperProps => {
-    if (prevProps.rotation !== props.rotation) {
-      computeSizes()
-      recomputeCropPosition()
-    } else if (prevProps.aspect !== props.aspect) {
-      computeSizes()
-    } else if (prevProps.zoom !== props.zoom) {
-      recomputeCropPosition()
-    } else if (
-      prevProps.cropSize?.height !== props.cropSize?.height ||
-      prevProps.cropSize?.width !== props.cropSize?.width
-    ) {
-      computeSizes()
-    } else if (prevProps.crop?.x !== props.crop?.x || prevProps.crop?.y !== props.crop?.y) {
-      emitCropAreaChange()
-    }
-    if (prevProps.zoomWithScroll !== props.zoomWithScroll && containerRef) {
-      props.zoomWithScroll
-        ? containerRef.addEventListener('wheel', onWheel, { passive: false })
-        : clearScrollEvent()
-    }
-    if (prevProps.video !== props.video) {
-      videoRef?.load()
-    }
-    return props
-  }, props)
+  // only the props compared below are snapshotted, as the merged props always return the latest values
+  const snapshotProps = (): PropsSnapshot => ({
+    rotation: props.rotation,
+    aspect: props.aspect,
+    zoom: props.zoom,
+    cropSize: props.cropSize,
+    crop: props.crop,
+    flip: props.flip,
+    zoomWithScroll: props.zoomWithScroll,
+    video: props.video,
+  })
+  createEffect((prevProps: PropsSnapshot): PropsSnapshot => {
+    const nextProps = snapshotProps()
+    untrack(() => {
+      if (prevProps.rotation !== nextProps.rotation) {
+        computeSizes()
+        recomputeCropPosition()
+      } else if (prevProps.aspect !== nextProps.aspect) {
+        resetCropArea()
+        computeSizes()
+      } else if (prevProps.zoom !== nextProps.zoom) {
+        recomputeCropPosition()
+      } else if (
+        prevProps.cropSize?.height !== nextProps.cropSize?.height ||
+        prevProps.cropSize?.width !== nextProps.cropSize?.width
+      ) {
+        computeSizes()
+      } else if (
+        prevProps.flip?.horizontal !== nextProps.flip?.horizontal ||
+        prevProps.flip?.vertical !== nextProps.flip?.vertical
+      ) {
+        emitCropData()
+      } else if (
+        prevProps.crop?.x !== nextProps.crop?.x ||
+        prevProps.crop?.y !== nextProps.crop?.y
+      ) {
+        emitCropAreaChange()
+      }
+      if (prevProps.zoomWithScroll !== nextProps.zoomWithScroll && containerRef) {
+        nextProps.zoomWithScroll
+          ? containerRef.addEventListener('wheel', onWheel, { passive: false })
+          : clearScrollEvent()
+      }
+      if (prevProps.video !== nextProps.video) {
+        videoRef?.load()
+      }
+    })
+    return nextProps
+  }, snapshotProps())
+  const getMediaTransform = (): MediaTransform => ({
+    crop: props.crop,
+    zoom: props.zoom!,
+    rotation: props.rotation!,
+  })
+  createEffect((prevTransform: MediaTransform): MediaTransform => {
+    const nextTransform = getMediaTransform()
+    untrack(() => {
+      const isOutsideChange =
+        (!isSamePoint(prevTransform.crop, nextTransform.crop) &&
+          !isSamePoint(emittedCrop, nextTransform.crop)) ||
+        (prevTransform.zoom !== nextTransform.zoom && emittedZoom !== nextTransform.zoom) ||
+        (prevTransform.rotation !== nextTransform.rotation &&
+          emittedRotation !== nextTransform.rotation)
+
+      if (!isSamePoint(prevTransform.crop, nextTransform.crop)) emittedCrop = null
+      if (prevTransform.zoom !== nextTransform.zoom) emittedZoom = null
+      if (prevTransform.rotation !== nextTransform.rotation) emittedRotation = null
+
+      if (isOutsideChange && props.animateChanges && !prefersReducedMotion()) {
+        animateTransform(animatedTransform() ?? prevTransform)
+      }
+    })
+    return nextTransform
+  }, getMediaTransform())
+  createEffect((prevTimeRange: TimeRange | undefined) => {
+    const timeRange = props.videoTimeRange
+    untrack(() => {
+      if (timeRange === prevTimeRange || !timeRange || !videoRef) return
+      const { currentTime } = videoRef
+      if (currentTime < timeRange.start || currentTime > timeRange.end) {
+        seekVideo(timeRange.start)
+      }
+      emitCropData()
+    })
+    return timeRange
+  }, props.videoTimeRange)
   const initResizeObserver = () => {
     if (typeof window.ResizeObserver === 'undefined' || !containerRef) {
       return
@@ -242,24 +526,78 @@ const Cropper: Component<CropperProps> = paramProps => {
     resizeObserver.observe(containerRef)
   }
 
-  // this is to prevent Safari on iOS >= 10 to zoom the page
-  const preventZoomSafari = (e: Event) => e.preventDefault()
-  const cleanEvents = () => {
-    if (!currentDoc) return
-    currentDoc.removeEventListener('mousemove', onMouseMove)
-    currentDoc.removeEventListener('mouseup', onDragStopped)
-    currentDoc.removeEventListener('touchmove', onTouchMove)
-    currentDoc.removeEventListener('touchend', onDragStopped)
-    currentDoc.removeEventListener('gesturemove', onGestureMove as EventListener)
-    currentDoc.removeEventListener('gestureend', onGestureEnd as EventListener)
-  }
   const clearScrollEvent = () => {
     if (containerRef) containerRef.removeEventListener('wheel', onWheel)
     if (wheelTimer) {
       clearTimeout(wheelTimer)
     }
   }
+  const getVideoTimeRange = (): TimeRange =>
+    props.videoTimeRange || { start: 0, end: videoDuration() }
+
+  const seekVideo = (time: number) => {
+    if (!videoRef) return
+    const { start, end } = getVideoTimeRange()
+    videoRef.currentTime = clamp(time, start, end)
+    setVideoTime(videoRef.currentTime)
+  }
+
+  const onVideoLoadedMetadata = () => {
+    setVideoDuration(videoRef.duration)
+    if (props.videoTimeRange) seekVideo(props.videoTimeRange.start)
+    onMediaLoad()
+  }
+
+  // the loop attribute is replaced by this when there is a time range,
+  // a paused video stays on the frame it was sought to, even the last one of the range
+  const onVideoTimeUpdate = () => {
+    const { start, end } = getVideoTimeRange()
+    if (
+      props.videoTimeRange &&
+      !videoRef.paused &&
+      (videoRef.currentTime >= end || videoRef.currentTime < start)
+    ) {
+      videoRef.currentTime = start
+    }
+    setVideoTime(videoRef.currentTime)
+  }
+
+  const onVideoPause = () => {
+    setIsVideoPaused(true)
+    // the chosen frame is part of the crop
+    emitCropData()
+  }
+
+  const toggleVideoPlayback = () => {
+    if (videoRef.paused) {
+      // a pause during the play request aborts it, the autoplay policy can also reject it
+      videoRef.play()?.catch((error: unknown) => {
+        if (error instanceof Error && error.name === 'AbortError') return
+        onMediaError(error instanceof Error ? error : new Error(String(error)))
+      })
+    } else {
+      videoRef.pause()
+    }
+  }
+
+  const setVideoTimeRangeBound = (bound: keyof TimeRange) => {
+    const time = videoRef.currentTime
+    const { start, end } = getVideoTimeRange()
+    props.onVideoTimeRangeChange?.(
+      bound === 'start'
+        ? { start: time, end: Math.max(time, end) }
+        : { start: Math.min(start, time), end: time },
+    )
+  }
+
   const onMediaLoad = () => {
+    // the load is handled once the orientation of a Blob image is known
+    if (imageRef && !getOrientation() && props.image instanceof Blob) {
+      isMediaLoadPending = true
+      return
+    }
+    isMediaLoadPending = false
+    resetCropArea()
     const cropSize = computeSizes()
 
     if (cropSize) {
@@ -272,51 +610,149 @@ const Cropper: Component<CropperProps> = paramProps => {
     }
   }
 
+  const onMediaError = (error: Error) => {
+    if (props.onMediaError) {
+      props.onMediaError(error)
+    }
+  }
+  const imageUrl = createImageUrl(() => props.image, onMediaError)
+
+  // the orientation of a Blob image is read from its EXIF when it is not given
+  const [exifOrientation, setExifOrientation] = createSignal<ExifOrientation>()
+  const getOrientation = () => props.orientation ?? exifOrientation()
+  createEffect(() => {
+    const image = props.image
+    setExifOrientation(undefined)
+    isMediaLoadPending = false
+    if (!(image instanceof Blob)) return
+
+    let isCurrent = true
+    onCleanup(() => (isCurrent = false))
+    getExifOrientation(image)
+      .catch(() => 1 as const)
+      .then(orientation => {
+        if (!isCurrent) return
+        setExifOrientation(orientation)
+        // an image without its src yet is complete on mount, it is handled when it loads
+        if (isMediaLoadPending && imageRef?.naturalWidth) onMediaLoad()
+      })
+  })
+
   const setInitialCrop = (cropSize: Size) => {
-    if (props.initialCroppedAreaPercentages) {
-      const { crop, zoom } = getInitialCropFromCroppedAreaPercentages(
-        props.initialCroppedAreaPercentages,
-        mediaSize(),
-        props.rotation!,
-        cropSize,
-        props.minZoom!,
-        props.maxZoom!,
-      )
+    const initialCrop = getInitialCrop(mediaSize(), cropSize, {
+      initialCroppedAreaPercentages: props.initialCroppedAreaPercentages,
+      initialCroppedAreaPixels: props.initialCroppedAreaPixels,
+      initialFocalPoint: props.initialFocalPoint && {
+        zoom: props.zoom,
+        ...props.initialFocalPoint,
+      },
+      rotation: props.rotation,
+      flip: props.flip,
+      minZoom: getMinZoom(),
+      maxZoom: getMaxZoom(),
+      restrictPosition: props.restrictPosition,
+      letterbox: props.letterbox,
+      zoomToCover: props.zoomToCover,
+    })
+    if (initialCrop) {
+      // the same restriction as the user changes, so the first interaction does not move the media
+      emitCropChange(restrictCrop(initialCrop.crop, initialCrop.zoom))
+      emitZoomChange(initialCrop.zoom)
+    }
+  }
+  // changes made through the controller are animated like the changes made from outside,
+  // each one is reported as an interaction so it can be recorded (see createCropperHistory)
+  const asControllerChange =
+    <T extends unknown[]>(fn: (...args: T) => void) =>
+    (...args: T) => {
+      isControllerChange = true
+      startInteraction()
+      try {
+        fn(...args)
+      } finally {
+        isControllerChange = false
+        endInteraction()
+      }
+    }
 
-      props.onCropChange(crop)
-      props.onZoomChange && props.onZoomChange(zoom)
-    } else if (props.initialCroppedAreaPixels) {
+  const controller: CropperController = {
+    zoomTo: asControllerChange((zoom, anchorPoint) => {
+      if (!containerRect) return
+      const point = anchorPoint
+        ? { x: containerRect.left + anchorPoint.x, y: containerRect.top + anchorPoint.y }
+        : getContainerCenter()
+      setNewZoom(zoom, point)
+    }),
+    panTo: asControllerChange(crop => {
+      emitCropChange(restrictCrop(crop))
+    }),
+    rotateTo: asControllerChange(rotation => {
+      emitRotationChange(rotation)
+    }),
+    fitArea: asControllerChange(croppedAreaPixels => {
+      if (!state().cropSize) return
       const { crop, zoom } = getInitialCropFromCroppedAreaPixels(
-        props.initialCroppedAreaPixels,
+        croppedAreaPixels,
         mediaSize(),
         props.rotation,
-        cropSize,
-        props.minZoom!,
-        props.maxZoom!,
+        state().cropSize as Size,
+        getMinZoom(),
+        getMaxZoom(),
+        props.flip,
       )
+      const offset = state().cropAreaOffset
+      emitCropChange(restrictCrop({ x: crop.x + offset.x, y: crop.y + offset.y }, zoom))
+      emitZoomChange(zoom)
+    }),
+    reset: asControllerChange(() => {
+      resetCropArea()
+      emitRotationChange(0)
+      emitZoomChange(clamp(1, props.minZoom!, props.maxZoom!))
+      emitCropChange({ x: 0, y: 0 })
+      computeSizes()
+    }),
+  }
 
-      props.onCropChange(crop)
-      props.onZoomChange && props.onZoomChange(zoom)
-    }
+  const resetCropArea = () => {
+    hasUserResizedCropArea = false
+    setState(prev => ({ ...prev, cropAreaOffset: { x: 0, y: 0 } }))
   }
   const getAspect = () => {
     const { cropSize, aspect } = props
+    if (props.resizable && state().cropSize) {
+      return state().cropSize!.width / state().cropSize!.height
+    }
     if (cropSize) {
       return cropSize.width / cropSize.height
     }
     return aspect
   }
+  // browsers display photos with their EXIF orientation, but some still report the stored size
+  const getNaturalMediaSize = (mediaRef: HTMLImageElement | HTMLVideoElement) => {
+    const width = imageRef?.naturalWidth || videoRef?.videoWidth || 0
+    const height = imageRef?.naturalHeight || videoRef?.videoHeight || 0
+    const orientation = imageRef ? getOrientation() : undefined
+    // the layout follows the displayed image, so its aspect tells which size is reported
+    const isStoredSizeReported =
+      !!orientation &&
+      orientation >= 5 &&
+      mediaRef.offsetWidth > 0 &&
+      mediaRef.offsetWidth > mediaRef.offsetHeight !== width > height
+    return {
+      naturalWidth: isStoredSizeReported ? height : width,
+      naturalHeight: isStoredSizeReported ? width : height,
+      orientation,
+    }
+  }
+
   const computeSizes = () => {
     const mediaRef = imageRef || videoRef
 
     if (mediaRef && containerRef) {
       containerRect = containerRef.getBoundingClientRect()
-      const containerAspect = containerRect.width / containerRect.height
-      const naturalWidth = imageRef?.naturalWidth || videoRef?.videoWidth || 0
-      const naturalHeight = imageRef?.naturalHeight || videoRef?.videoHeight || 0
+      const { naturalWidth, naturalHeight, orientation } = getNaturalMediaSize(mediaRef)
       const isMediaScaledDown =
         mediaRef.offsetWidth < naturalWidth || mediaRef.offsetHeight < naturalHeight
-      const mediaAspect = naturalWidth / naturalHeight
 
       // We do not rely on the offsetWidth/offsetHeight if the media is scaled down
       // as the values they report are rounded. That will result in precision losses
@@ -324,58 +760,21 @@ const Cropper: Component<CropperProps> = paramProps => {
       // to the container. That allows us to use the container's dimensions
       // and natural aspect ratio of the media to calculate accurate media size.
       // However, for this to work, the container should not be rotated
-      let renderedMediaSize
-
-      if (isMediaScaledDown) {
-        switch (props.objectFit) {
-          default:
-          case 'contain':
-            renderedMediaSize =
-              containerAspect > mediaAspect
-                ? {
-                    width: containerRect.height * mediaAspect,
-                    height: containerRect.height,
-                  }
-                : {
-                    width: containerRect.width,
-                    height: containerRect.width / mediaAspect,
-                  }
-            break
-          case 'horizontal-cover':
-            renderedMediaSize = {
-              width: containerRect.width,
-              height: containerRect.width / mediaAspect,
-            }
-            break
-          case 'vertical-cover':
-            renderedMediaSize = {
-              width: containerRect.height * mediaAspect,
-              height: containerRect.height,
-            }
-            break
-          case 'auto-cover':
-            renderedMediaSize =
-              naturalWidth > naturalHeight
-                ? {
-                    width: containerRect.width,
-                    height: containerRect.width / mediaAspect,
-                  }
-                : {
-                    width: containerRect.height * mediaAspect,
-                    height: containerRect.height,
-                  }
-            break
-        }
-      } else {
-        renderedMediaSize = {
-          width: mediaRef.offsetWidth,
-          height: mediaRef.offsetHeight,
-        }
-      }
+      const renderedMediaSize = isMediaScaledDown
+        ? getRenderedMediaSize(
+            containerRect,
+            { width: naturalWidth, height: naturalHeight },
+            props.objectFit,
+          )
+        : {
+            width: mediaRef.offsetWidth,
+            height: mediaRef.offsetHeight,
+          }
       setMediaSize({
         ...renderedMediaSize,
         naturalWidth,
         naturalHeight,
+        ...(orientation && { orientation }),
       })
 
       // set media size in the parent
@@ -383,16 +782,20 @@ const Cropper: Component<CropperProps> = paramProps => {
         props.setMediaSize(mediaSize())
       }
 
-      const cropSize =
-        props.cropSize ||
-        getCropSize(
-          mediaSize().width,
-          mediaSize().height,
-          containerRect.width,
-          containerRect.height,
-          props.aspect,
-          props.rotation,
-        )
+      const userCropSize = hasUserResizedCropArea && state().cropSize
+      const cropSize = userCropSize
+        ? {
+            width: Math.min(userCropSize.width, containerRect.width),
+            height: Math.min(userCropSize.height, containerRect.height),
+          }
+        : props.cropSize ||
+          getCropAreaSize(
+            mediaSize(),
+            containerRect,
+            props.aspect!,
+            props.rotation,
+            props.zoomToCover,
+          )
 
       if (
         state().cropSize?.height !== cropSize.height ||
@@ -401,7 +804,16 @@ const Cropper: Component<CropperProps> = paramProps => {
         props.onCropSizeChange && props.onCropSizeChange(cropSize)
       }
       console.log('check size', state().cropSize?.height, state().cropSize?.width)
-      setState(prev => ({ ...prev, cropSize }))
+      setState(prev => ({
+        ...prev,
+        cropSize,
+        cropAreaOffset: restrictCropAreaOffset(prev.cropAreaOffset, cropSize, {
+          x: -containerRect.width / 2,
+          y: -containerRect.height / 2,
+          width: containerRect.width,
+          height: containerRect.height,
+        }),
+      }))
       recomputeCropPosition()
       // pass crop size to parent
       if (props.setCropSize) {
@@ -415,82 +827,184 @@ const Cropper: Component<CropperProps> = paramProps => {
     x: Number(e.clientX),
     y: Number(e.clientY),
   })
-  const getTouchPoint = (touch: Touch) => ({
-    x: Number(touch.clientX),
-    y: Number(touch.clientY),
-  })
-  const onMouseDown = (e: MouseEvent) => {
-    if (!currentDoc) return
+
+  const isPointerRequestAccepted = (e: PointerEvent) =>
+    (e.pointerType !== 'mouse' || e.button === 0) &&
+    (!props.onPointerRequest || props.onPointerRequest(e))
+
+  // with the twoFingers policy, a single touch is left to the page so it can scroll
+  const isLoneTouchBlocked = () =>
+    props.gesturePolicy === 'twoFingers' &&
+    [...activePointers.values()].filter(({ isTouch }) => isTouch).length === 1
+
+  // touches take part in gestures once onTouchRequest accepted them
+  const getGesturePoints = () => {
+    const isTouchBlocked = isLoneTouchBlocked()
+    return [...activePointers.values()]
+      .filter(({ isTouch, isAccepted }) => isAccepted && (!isTouch || !isTouchBlocked))
+      .map(({ point }) => point)
+  }
+
+  const showGestureHint = (gesture: GestureHint) => {
+    if (!currentWindow) return
+    setGestureHint(gesture)
+    gestureHintTimer && currentWindow.clearTimeout(gestureHintTimer)
+    gestureHintTimer = currentWindow.setTimeout(() => setGestureHint(null), GESTURE_HINT_DURATION)
+  }
+
+  // one pointer drags the media and two pointers pinch it, whatever their type
+  const updatePointerGesture = () => {
+    const [pointA, pointB] = getGesturePoints()
+    const isNewGesture = !pointerGesture
+    if (!pointA) {
+      pointerGesture = null
+      if (!isNewGesture) onDragStopped()
+      return
+    }
+
+    pointerGesture = pointB ? 'pinch' : 'drag'
+    if (pointB) {
+      onPinchStart(pointA, pointB, isNewGesture)
+    } else if (isNewGesture) {
+      onDragStart(pointA)
+    } else {
+      // the remaining pointer of a pinch keeps dragging the media from where it is
+      setDragStart(pointA)
+    }
+  }
+
+  const onPointerDown = (e: PointerEvent) => {
+    if (!isPointerRequestAccepted(e)) return
     e.preventDefault()
-    currentDoc.addEventListener('mousemove', onMouseMove)
-    currentDoc.addEventListener('mouseup', onDragStopped)
-    onDragStart(getMousePoint(e))
+    containerRef.setPointerCapture?.(e.pointerId)
+    const isTouch = e.pointerType === 'touch'
+    // the touchstart event following the pointerdown one is given to onTouchRequest
+    const isPending = isTouch && !!props.onTouchRequest
+    activePointers.set(e.pointerId, {
+      point: getMousePoint(e),
+      isTouch,
+      isAccepted: isPending ? null : true,
+    })
+    if (!isPending) updatePointerGesture()
   }
-  const onMouseMove = (e: MouseEvent) => onDrag(getMousePoint(e))
 
+  // a request covers all the touches that are down: accepting it takes them all,
+  // rejecting it only leaves out the new ones so an accepted touch keeps dragging
   const onTouchStart = (e: TouchEvent) => {
-    if (!currentDoc) return
-    isTouching = true
-    if (props.onTouchRequest && !props.onTouchRequest(e)) {
+    if (!props.onTouchRequest) return
+    const isAccepted = props.onTouchRequest(e)
+    activePointers.forEach(pointer => {
+      if (pointer.isTouch && (isAccepted || pointer.isAccepted === null)) {
+        pointer.isAccepted = isAccepted
+      }
+    })
+    updatePointerGesture()
+  }
+
+  // touch-action lets the page pan with several fingers too (see the twoFingers policy),
+  // they are kept for the pinch
+  const onTouchMove = (e: TouchEvent) => {
+    if (e.touches.length > 1 && e.cancelable) e.preventDefault()
+  }
+
+  const onPointerMove = (e: PointerEvent) => {
+    if (e.pointerId === cropAreaPointer?.id) {
+      if (cropAreaDragHandle) onCropAreaDrag(getMousePoint(e))
       return
     }
+    const pointer = activePointers.get(e.pointerId)
+    if (!pointer) return
+    pointer.point = getMousePoint(e)
+    if (pointer.isTouch && isLoneTouchBlocked()) showGestureHint('touch')
+    if (!pointerGesture) return
 
-    currentDoc.addEventListener('touchmove', onTouchMove, { passive: false }) // iOS 11 now defaults to passive: true
-    currentDoc.addEventListener('touchend', onDragStopped)
-
-    if (e.touches.length === 2) {
-      onPinchStart(e)
-    } else if (e.touches.length === 1) {
-      onDragStart(getTouchPoint(e.touches[0]!))
+    const [pointA, pointB] = getGesturePoints()
+    if (pointA && pointB) {
+      onPinchMove(pointA, pointB)
+    } else if (pointA) {
+      onDrag(pointA)
     }
   }
-  const onTouchMove = (e: TouchEvent) => {
-    // Prevent whole page from scrolling on iOS.
-    e.preventDefault()
-    if (e.touches.length === 2) {
-      onPinchMove(e)
-    } else if (e.touches.length === 1) {
-      onDrag(getTouchPoint(e.touches[0]!))
+
+  const onPointerUp = (e: PointerEvent) => {
+    if (e.pointerId === cropAreaPointer?.id) {
+      cropAreaPointer = null
+      if (cropAreaDragHandle) onCropAreaDragStopped()
+      return
     }
+    const pointer = activePointers.get(e.pointerId)
+    if (!pointer) return
+    // the page took over the touch to scroll
+    if (e.type === 'pointercancel' && pointer.isTouch && isLoneTouchBlocked()) {
+      showGestureHint('touch')
+    }
+    activePointers.delete(e.pointerId)
+    updatePointerGesture()
   }
+
+  // Safari sends gesture events for trackpad pinches, touch pinches are handled with pointers
   const onGestureStart = (e: GestureEvent) => {
-    if (!currentDoc) return
+    // this is to prevent Safari on iOS >= 10 to zoom the page
     e.preventDefault()
-    currentDoc.addEventListener('gesturechange', onGestureMove as EventListener)
-    currentDoc.addEventListener('gestureend', onGestureEnd as EventListener)
     gestureZoomStart = props.zoom!
     gestureRotationStart = props.rotation!
+    if (activePointers.size) return
+    isGestureInteracting = true
+    stopMotion()
+    startInteraction()
   }
 
   const onGestureMove = (e: GestureEvent) => {
     e.preventDefault()
-    if (isTouching) {
-      // this is to avoid conflict between gesture and touch events
-      return
-    }
+    if (activePointers.size) return
 
     const point = getMousePoint(e)
     const newZoom = gestureZoomStart - 1 + e.scale
     setNewZoom(newZoom, point, { shouldUpdatePosition: true })
     if (props.onRotationChange) {
-      const newRotation = gestureRotationStart + e.rotation
-      props.onRotationChange(newRotation)
+      const newRotation = gestureRotationStart + e.rotation * getFlipRotationSign()
+      emitRotationChange(newRotation)
     }
   }
 
-  const onGestureEnd = (e: GestureEvent) => {
-    cleanEvents()
+  const onGestureEnd = () => {
+    if (!isGestureInteracting) return
+    isGestureInteracting = false
+    emitCropData()
+    endInteraction()
   }
 
-  const onDragStart = ({ x, y }: Point) => {
+  // a mirrored media visually rotates the other way, so gestures need to be inverted
+  const startInteraction = () => {
+    setState(prev => ({ ...prev, isInteracting: true }))
+    setGestureHint(null)
+    props.onInteractionStart?.()
+  }
+
+  const endInteraction = () => {
+    setState(prev => ({ ...prev, isInteracting: false }))
+    props.onInteractionEnd?.()
+  }
+
+  const getFlipRotationSign = () =>
+    Boolean(props.flip?.horizontal) !== Boolean(props.flip?.vertical) ? -1 : 1
+
+  const setDragStart = ({ x, y }: Point) => {
     dragStartPosition = { x, y }
     dragStartCrop = { ...props.crop }
-    props.onInteractionStart?.()
+    dragSamples = [{ x, y, time: performance.now() }]
+  }
+
+  const onDragStart = (point: Point) => {
+    stopMotion()
+    setDragStart(point)
+    startInteraction()
   }
 
   const onDrag = ({ x, y }: Point) => {
     if (!currentWindow) return
     if (rafDragTimeout) currentWindow.cancelAnimationFrame(rafDragTimeout)
+    dragSamples = [...dragSamples.slice(-4), { x, y, time: performance.now() }]
 
     rafDragTimeout = currentWindow.requestAnimationFrame(() => {
       if (!state().cropSize) return
@@ -502,38 +1016,137 @@ const Cropper: Component<CropperProps> = paramProps => {
         y: dragStartCrop.y + offsetY,
       }
 
-      const newPosition = props.restrictPosition
-        ? restrictPosition(
-            requestedPosition,
-            mediaSize(),
-            state().cropSize as Size,
-            props.zoom!,
-            props.rotation,
-          )
-        : requestedPosition
-      props.onCropChange(newPosition)
+      emitCropChange(restrictCrop(requestedPosition))
     })
   }
 
   const onDragStopped = () => {
-    isTouching = false
-    cleanEvents()
+    // the interaction ends when the media stops moving
+    if (startInertia()) return
     emitCropData()
-    props.onInteractionEnd?.()
+    endInteraction()
+  }
+
+  const prefersReducedMotion = () =>
+    Boolean(currentWindow?.matchMedia?.('(prefers-reduced-motion: reduce)').matches)
+
+  // animates the displayed media from the given transform to the one given by the props
+  const animateTransform = (from: MediaTransform) => {
+    if (!currentWindow) return
+    if (animationFrame) currentWindow.cancelAnimationFrame(animationFrame)
+    const startTime = performance.now()
+
+    const step = (time: number) => {
+      const progress = clamp((time - startTime) / props.animationDuration!, 0, 1)
+      if (progress >= 1) {
+        animationFrame = null
+        setAnimatedTransform(null)
+        return
+      }
+
+      const t = props.animationEasing!(progress)
+      const to = getMediaTransform()
+      setAnimatedTransform({
+        crop: {
+          x: interpolate(from.crop.x, to.crop.x, t),
+          y: interpolate(from.crop.y, to.crop.y, t),
+        },
+        zoom: interpolate(from.zoom, to.zoom, t),
+        rotation: interpolate(from.rotation, to.rotation, t),
+      })
+      animationFrame = currentWindow!.requestAnimationFrame(step)
+    }
+    animationFrame = currentWindow.requestAnimationFrame(step)
   }
 
-  const onPinchStart = (e: TouchEvent) => {
-    const pointA = getTouchPoint(e.touches[0]!)
-    const pointB = getTouchPoint(e.touches[1]!)
+  const startInertia = () => {
+    if (!props.inertia || !currentWindow || prefersReducedMotion()) return false
+    let lastTime = performance.now()
+    let velocity = getVelocity(dragSamples, lastTime)
+    dragSamples = []
+    if (Math.hypot(velocity.x, velocity.y) < MIN_INERTIA_VELOCITY) return false
+
+    const step = (time: number) => {
+      const elapsed = time - lastTime
+      lastTime = time
+      const requestedPosition = {
+        x: props.crop.x + velocity.x * elapsed,
+        y: props.crop.y + velocity.y * elapsed,
+      }
+      const newPosition = restrictCrop(requestedPosition)
+      // the media stops on the axis reaching the bounds of the crop area
+      const decay = Math.pow(props.inertiaFriction!, elapsed / 16)
+      velocity = {
+        x: newPosition.x === requestedPosition.x ? velocity.x * decay : 0,
+        y: newPosition.y === requestedPosition.y ? velocity.y * decay : 0,
+      }
+      emitCropChange(newPosition)
+
+      if (Math.hypot(velocity.x, velocity.y) < MIN_INERTIA_VELOCITY) {
+        inertiaFrame = null
+        emitCropData()
+        endInteraction()
+        return
+      }
+      inertiaFrame = currentWindow!.requestAnimationFrame(step)
+    }
+    inertiaFrame = currentWindow.requestAnimationFrame(step)
+    return true
+  }
+
+  // stops the running animations when the user interacts with the media
+  const stopMotion = () => {
+    if (!currentWindow) return
+    if (animationFrame) {
+      currentWindow.cancelAnimationFrame(animationFrame)
+      animationFrame = null
+      setAnimatedTransform(null)
+    }
+    if (inertiaFrame) {
+      currentWindow.cancelAnimationFrame(inertiaFrame)
+      inertiaFrame = null
+      emitCropData()
+      endInteraction()
+    }
+  }
+
+  const emitCropChange = (crop: Point) => {
+    if (!isControllerChange) emittedCrop = crop
+    props.onCropChange(crop)
+  }
+
+  const emitZoomChange = (zoom: number) => {
+    if (!props.onZoomChange) return
+    if (!isControllerChange) emittedZoom = zoom
+    props.onZoomChange(zoom)
+  }
+
+  // `from` is given to step to the next allowed rotation in the direction of the change
+  const emitRotationChange = (requestedRotation: number, from?: number) => {
+    if (!props.onRotationChange) return
+    const rotation = constrainRotation(requestedRotation, {
+      step: props.rotationStep,
+      snapAngles: props.rotationSnapAngles,
+      snapThreshold: props.rotationSnapThreshold,
+      min: props.minRotation,
+      max: props.maxRotation,
+      from,
+    })
+    if (rotation === props.rotation) return
+    if (!isControllerChange) emittedRotation = rotation
+    props.onRotationChange(rotation)
+  }
+
+  const onPinchStart = (pointA: Point, pointB: Point, isNewGesture: boolean) => {
     lastPinchDistance = getDistanceBetweenPoints(pointA, pointB)
-    lastPinchRotation = getRotationBetweenPoints(pointA, pointB)
-    onDragStart(getCenter(pointA, pointB))
+    pinchStartAngle = getRotationBetweenPoints(pointA, pointB)
+    pinchRotationStart = props.rotation!
+    const center = getCenter(pointA, pointB)
+    isNewGesture ? onDragStart(center) : setDragStart(center)
   }
 
-  const onPinchMove = (e: TouchEvent) => {
-    if (!currentDoc || !currentWindow) return
-    const pointA = getTouchPoint(e.touches[0]!)
-    const pointB = getTouchPoint(e.touches[1]!)
+  const onPinchMove = (pointA: Point, pointB: Point) => {
+    if (!currentWindow) return
     const center = getCenter(pointA, pointB)
     onDrag(center)
 
@@ -545,27 +1158,39 @@ const Cropper: Component<CropperProps> = paramProps => {
       lastPinchDistance = distance
 
       const rotation = getRotationBetweenPoints(pointA, pointB)
-      const newRotation = props.rotation! + (rotation - lastPinchRotation)
-      props.onRotationChange && props.onRotationChange(newRotation)
-      lastPinchRotation = rotation
+      // computed from the start of the pinch so the rotation step does not swallow small moves
+      const newRotation = pinchRotationStart + (rotation - pinchStartAngle) * getFlipRotationSign()
+      emitRotationChange(newRotation)
     })
   }
 
   const onWheel = (e: WheelEvent) => {
     if (!currentWindow) return
+    // trackpad pinches are wheel events with ctrlKey, so every policy lets them zoom
+    if (props.gesturePolicy === 'modifierKey' && !e.ctrlKey && !e.metaKey) {
+      showGestureHint('wheel')
+      return
+    }
     if (props.onWheelRequest && !props.onWheelRequest(e)) {
       return
     }
 
     e.preventDefault()
+    stopMotion()
     const point = getMousePoint(e)
     const { pixelY } = normalizeWheel(e)
-    const newZoom = props.zoom! - (pixelY * props.zoomSpeed!) / 200
+    // the delta of a pinch is the logarithm of its scale (times -100), so it zooms by a factor
+    const newZoom = e.ctrlKey
+      ? props.zoom! *
+        Math.exp(
+          (-clamp(pixelY, -MAX_PINCH_WHEEL_DELTA, MAX_PINCH_WHEEL_DELTA) * props.zoomSpeed!) / 100,
+        )
+      : props.zoom! - (pixelY * props.zoomSpeed!) / 200
     setNewZoom(newZoom, point, { shouldUpdatePosition: true })
 
     if (!state().hasWheelJustStarted) {
       setState(prev => ({ ...prev, hasWheelJustStarted: true }))
-      props.onInteractionStart?.()
+      startInteraction()
     }
 
     if (wheelTimer) {
@@ -573,54 +1198,134 @@ const Cropper: Component<CropperProps> = paramProps => {
     }
     wheelTimer = currentWindow.setTimeout(() => {
       setState(prev => ({ ...prev, hasWheelJustStarted: false }))
-      props.onInteractionEnd?.()
+      endInteraction()
     }, 250)
   }
 
-  const getPointOnContainer = ({ x, y }: Point) => {
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (onHistoryShortcut(e)) return
+    // leave the browser shortcuts, like Ctrl+= and Ctrl+- for the page zoom
+    if (e.ctrlKey || e.metaKey || e.altKey) return
+    if (!state().cropSize) return
+    stopMotion()
+    const step = e.shiftKey ? props.keyboardShiftStep! : props.keyboardStep!
+    const newCrop = { ...props.crop }
+
+    switch (e.key) {
+      case 'ArrowUp':
+        newCrop.y -= step
+        break
+      case 'ArrowDown':
+        newCrop.y += step
+        break
+      case 'ArrowLeft':
+        newCrop.x -= step
+        break
+      case 'ArrowRight':
+        newCrop.x += step
+        break
+      case '+':
+      case '=':
+        e.preventDefault()
+        startKeyboardInteraction()
+        setNewZoom(props.zoom! + props.keyboardZoomStep!, getContainerCenter())
+        return
+      case '-':
+      case '_':
+        e.preventDefault()
+        startKeyboardInteraction()
+        setNewZoom(props.zoom! - props.keyboardZoomStep!, getContainerCenter())
+        return
+      case '[':
+      case ']':
+        if (!props.keyboardRotationStep || !props.onRotationChange) return
+        e.preventDefault()
+        startKeyboardInteraction()
+        emitRotationChange(
+          props.rotation! + (e.key === ']' ? 1 : -1) * props.keyboardRotationStep,
+          props.rotation,
+        )
+        return
+      default:
+        return
+    }
+
+    e.preventDefault()
+    startKeyboardInteraction()
+    emitCropChange(restrictCrop(newCrop))
+  }
+
+  // holding a key is a single interaction, ended when one of the keys is released
+  const startKeyboardInteraction = () => {
+    if (isKeyboardInteracting) return
+    isKeyboardInteracting = true
+    startInteraction()
+  }
+
+  // Ctrl+Z (Cmd+Z on macOS) undoes, Ctrl+Shift+Z and Ctrl+Y redo
+  const onHistoryShortcut = (e: KeyboardEvent) => {
+    if (!e.ctrlKey && !e.metaKey) return false
+    const key = e.key.toLowerCase()
+    const handler =
+      key === 'z' ? (e.shiftKey ? props.onRedo : props.onUndo) : key === 'y' ? props.onRedo : null
+    if (!handler) return false
+
+    e.preventDefault()
+    handler()
+    return true
+  }
+
+  const onKeyUp = (e: KeyboardEvent) => {
+    if (!isKeyboardInteracting || !KEYBOARD_INTERACTION_KEYS.includes(e.key)) return
+    e.preventDefault()
+    endKeyboardInteraction()
+  }
+
+  // the key up is not received once the focus has left the container
+  const endKeyboardInteraction = () => {
+    if (!isKeyboardInteracting) return
+    isKeyboardInteracting = false
+    emitCropData()
+    endInteraction()
+  }
+
+  const getContainerCenter = (): Point => {
     if (!containerRect) {
       throw new Error('The Cropper is not mounted')
     }
     return {
-      x: containerRect.width / 2 - (x - containerRect.left),
-      y: containerRect.height / 2 - (y - containerRect.top),
+      x: containerRect.left + containerRect.width / 2,
+      y: containerRect.top + containerRect.height / 2,
     }
   }
 
-  const getPointOnMedia = ({ x, y }: Point) => {
-    const { crop, zoom } = props
+  const getPointOnContainer = ({ x, y }: Point) => {
+    if (!containerRect) {
+      throw new Error('The Cropper is not mounted')
+    }
     return {
-      x: (x + crop.x) / zoom!,
-      y: (y + crop.y) / zoom!,
+      x: containerRect.width / 2 - (x - containerRect.left),
+      y: containerRect.height / 2 - (y - containerRect.top),
     }
   }
 
   const setNewZoom = (zoom: number, point: Point, { shouldUpdatePosition = true } = {}) => {
     if (!state().cropSize || !props.onZoomChange) return
 
-    const newZoom = clamp(zoom, props.minZoom!, props.maxZoom!)
+    const newZoom = clamp(zoom, getMinZoom(), getMaxZoom())
+    updateCroppedAreaLimit(zoom)
 
     if (shouldUpdatePosition) {
-      const zoomPoint = getPointOnContainer(point)
-      const zoomTarget = getPointOnMedia(zoomPoint)
-      const requestedPosition = {
-        x: zoomTarget.x * newZoom - zoomPoint.x,
-        y: zoomTarget.y * newZoom - zoomPoint.y,
-      }
-
-      const newPosition = props.restrictPosition
-        ? restrictPosition(
-            requestedPosition,
-            mediaSize(),
-            state().cropSize as Size,
-            newZoom,
-            props.rotation,
-          )
-        : requestedPosition
+      const requestedPosition = getZoomedCrop(
+        getPointOnContainer(point),
+        props.crop,
+        props.zoom!,
+        newZoom,
+      )
 
-      props.onCropChange(newPosition)
+      emitCropChange(restrictCrop(requestedPosition, newZoom))
     }
-    props.onZoomChange(newZoom)
+    emitZoomChange(newZoom)
   }
 
   const getCropData = () => {
@@ -629,37 +1334,40 @@ const Cropper: Component<CropperProps> = paramProps => {
     }
 
     // this is to ensure the crop is correctly restricted after a zoom back (https://github.com/ValentinH/react-easy-crop/issues/6)
-    const restrictedPosition = props.restrictPosition
-      ? restrictPosition(
-          props.crop,
-          mediaSize(),
-          state().cropSize as Size,
-          props.zoom!,
-          props.rotation,
-        )
-      : props.crop
-    return computeCroppedArea(
-      restrictedPosition,
+    const restrictedPosition = restrictCrop(props.crop)
+    const { croppedAreaPercentages, croppedAreaPixels, padding } = getCroppedAreas(
+      getRelativeCrop(restrictedPosition),
       mediaSize(),
       state().cropSize as Size,
-      getAspect(),
-      props.zoom!,
-      props.rotation,
-      props.restrictPosition,
+      {
+        aspect: getAspect(),
+        zoom: props.zoom!,
+        rotation: props.rotation,
+        flip: props.flip,
+        restrictPosition: props.restrictPosition,
+        letterbox: props.letterbox,
+      },
     )
+    const details: CropDetails = { padding }
+    if (props.video && videoRef) {
+      details.currentTime = videoRef.currentTime
+      details.timeRange = props.videoTimeRange
+    }
+    return { croppedAreaPercentages, croppedAreaPixels, details }
   }
 
   const emitCropData = () => {
     const cropData = getCropData()
     if (!cropData) return
 
-    const { croppedAreaPercentages, croppedAreaPixels } = cropData
+    const { croppedAreaPercentages, croppedAreaPixels, details } = cropData
+    announce()
     if (props.onCropComplete) {
-      props.onCropComplete(croppedAreaPercentages, croppedAreaPixels)
+      props.onCropComplete(croppedAreaPercentages, croppedAreaPixels, details)
     }
 
     if (props.onCropAreaChange) {
-      props.onCropAreaChange(croppedAreaPercentages, croppedAreaPixels)
+      props.onCropAreaChange(croppedAreaPercentages, croppedAreaPixels, details)
     }
   }
 
@@ -667,27 +1375,199 @@ const Cropper: Component<CropperProps> = paramProps => {
     const cropData = getCropData()
     if (!cropData) return
 
-    const { croppedAreaPercentages, croppedAreaPixels } = cropData
+    const { croppedAreaPercentages, croppedAreaPixels, details } = cropData
     if (props.onCropAreaChange) {
-      props.onCropAreaChange(croppedAreaPercentages, croppedAreaPixels)
+      props.onCropAreaChange(croppedAreaPercentages, croppedAreaPixels, details)
     }
   }
 
+  const announce = () => {
+    setAnnouncement(
+      props.formatAnnouncement!({
+        crop: props.crop,
+        zoom: props.zoom!,
+        rotation: props.rotation!,
+      }),
+    )
+  }
+
   const recomputeCropPosition = () => {
     if (!state().cropSize) return
 
-    const newPosition = props.restrictPosition
-      ? restrictPosition(
-          props.crop,
-          mediaSize(),
-          state().cropSize as Size,
-          props.zoom!,
-          props.rotation!,
+    // zoom automatically when the rotated media does not cover the crop area anymore,
+    // or when the cropped area does not fit minCroppedAreaPixels and maxCroppedAreaPixels
+    const hasZoomConstraints =
+      props.zoomToCover || props.minCroppedAreaPixels || props.maxCroppedAreaPixels
+    const zoom = clamp(props.zoom!, getMinZoom(), getMaxZoom())
+    if (hasZoomConstraints && zoom !== props.zoom) {
+      emitCropChange(restrictCrop(props.crop, zoom))
+      emitZoomChange(zoom)
+    } else {
+      emitCropChange(restrictCrop(props.crop))
+    }
+    emitCropData()
+  }
+
+  // position of the media relative to the crop area, which is what the cropping math expects
+  const getRelativeCrop = (crop: Point): Point => ({
+    x: crop.x - state().cropAreaOffset.x,
+    y: crop.y - state().cropAreaOffset.y,
+  })
+
+  const restrictCrop = (crop: Point, zoom = props.zoom!): Point => {
+    if (!props.restrictPosition || !state().cropSize) return crop
+
+    return restrictCropPosition(crop, mediaSize(), state().cropSize as Size, {
+      zoom,
+      rotation: props.rotation,
+      flip: props.flip,
+      letterbox: props.letterbox,
+      zoomToCover: props.zoomToCover,
+      cropAreaOffset: state().cropAreaOffset,
+    })
+  }
+
+  // the media should keep covering the crop area when it is resized or when the media is rotated,
+  // and the cropped area should stay between minCroppedAreaPixels and maxCroppedAreaPixels
+  const getZoomLimits = (): ZoomRange => {
+    const cropSize = state().cropSize
+    if (!cropSize) {
+      return {
+        minZoom: props.minZoom!,
+        maxZoom: Math.max(props.minZoom!, props.maxZoom!),
+        coverMinZoom: props.minZoom!,
+        croppedAreaZoomRange: { minZoom: 0, maxZoom: Infinity },
+      }
+    }
+    return getZoomRange(mediaSize(), cropSize, {
+      minZoom: props.minZoom!,
+      maxZoom: props.maxZoom!,
+      rotation: props.rotation,
+      restrictPosition: props.restrictPosition,
+      letterbox: props.letterbox,
+      zoomToCover: props.zoomToCover,
+      resizable: props.resizable,
+      minCroppedAreaPixels: props.minCroppedAreaPixels,
+      maxCroppedAreaPixels: props.maxCroppedAreaPixels,
+    })
+  }
+
+  const getMinZoom = () => getZoomLimits().minZoom
+
+  const getMaxZoom = () => getZoomLimits().maxZoom
+
+  const updateCroppedAreaLimit = (requestedZoom: number) => {
+    const { minZoom, maxZoom, coverMinZoom, croppedAreaZoomRange } = getZoomLimits()
+    let limit: CroppedAreaLimit | null = null
+    if (requestedZoom > maxZoom && croppedAreaZoomRange.maxZoom < props.maxZoom!) {
+      limit = 'minCroppedAreaPixels'
+    } else if (requestedZoom < minZoom && croppedAreaZoomRange.minZoom > coverMinZoom) {
+      limit = 'maxCroppedAreaPixels'
+    }
+    if (limit === croppedAreaLimit) return
+    croppedAreaLimit = limit
+    props.onCroppedAreaLimitChange?.(limit)
+  }
+
+  // crop area bounds relative to the center of the container
+  const getCropAreaBounds = (): Area => {
+    const containerBounds = {
+      x: -containerRect.width / 2,
+      y: -containerRect.height / 2,
+      width: containerRect.width,
+      height: containerRect.height,
+    }
+    if (!props.restrictPosition) return containerBounds
+
+    const { width, height } = rotateSize(mediaSize().width, mediaSize().height, props.rotation!)
+    return intersectAreas(containerBounds, {
+      x: props.crop.x - (width * props.zoom!) / 2,
+      y: props.crop.y - (height * props.zoom!) / 2,
+      width: width * props.zoom!,
+      height: height * props.zoom!,
+    })
+  }
+
+  // converts a size in media pixels to a size in container pixels
+  const getCropAreaSizeLimit = (size: Size | undefined, fallback: number): Size => {
+    if (!size) return { width: fallback, height: fallback }
+    const scale = getMediaZoom(mediaSize()) * props.zoom!
+    return { width: size.width * scale, height: size.height * scale }
+  }
+
+  const onCropAreaPointerDown = (handle: CropAreaHandle | 'move', e: PointerEvent) => {
+    e.stopPropagation()
+    if (cropAreaPointer || !isPointerRequestAccepted(e)) return
+    e.preventDefault()
+    ;(e.currentTarget as Element).setPointerCapture?.(e.pointerId)
+    cropAreaPointer = { id: e.pointerId, handle, point: getMousePoint(e) }
+    // like on the media, a touch waits for onTouchRequest
+    if (e.pointerType === 'touch' && props.onTouchRequest) return
+    onCropAreaDragStart(handle, cropAreaPointer.point)
+  }
+
+  const onCropAreaTouchStart = (e: TouchEvent) => {
+    e.stopPropagation()
+    if (!cropAreaPointer || cropAreaDragHandle || !props.onTouchRequest) return
+    if (e.touches.length === 1 && props.onTouchRequest(e)) {
+      onCropAreaDragStart(cropAreaPointer.handle, cropAreaPointer.point)
+    }
+  }
+
+  const onCropAreaDragStart = (handle: CropAreaHandle | 'move', point: Point) => {
+    cropAreaDragHandle = handle
+    dragStartPosition = point
+    cropAreaDragStartSize = state().cropSize
+    cropAreaDragStartOffset = state().cropAreaOffset
+    startInteraction()
+  }
+
+  const onCropAreaDrag = ({ x, y }: Point) => {
+    if (!currentWindow) return
+    if (rafDragTimeout) currentWindow.cancelAnimationFrame(rafDragTimeout)
+
+    rafDragTimeout = currentWindow.requestAnimationFrame(() => {
+      const startSize = cropAreaDragStartSize
+      if (!startSize || !cropAreaDragHandle || !containerRect) return
+      const delta = { x: x - dragStartPosition.x, y: y - dragStartPosition.y }
+      const bounds = getCropAreaBounds()
+
+      if (cropAreaDragHandle === 'move') {
+        const offset = restrictCropAreaOffset(
+          {
+            x: cropAreaDragStartOffset.x + delta.x,
+            y: cropAreaDragStartOffset.y + delta.y,
+          },
+          startSize,
+          bounds,
         )
-      : props.crop
+        setState(prev => ({ ...prev, cropAreaOffset: offset }))
+        emitCropAreaChange()
+        return
+      }
+
+      const { cropSize, offset } = resizeCropArea(
+        cropAreaDragHandle,
+        startSize,
+        cropAreaDragStartOffset,
+        delta,
+        bounds,
+        getCropAreaSizeLimit(props.minCroppedAreaPixels, MIN_CROP_AREA_SIZE),
+        getCropAreaSizeLimit(props.maxCroppedAreaPixels, Infinity),
+        props.lockAspect ? props.aspect : undefined,
+      )
+      hasUserResizedCropArea = true
+      setState(prev => ({ ...prev, cropSize, cropAreaOffset: offset }))
+      props.onCropSizeChange?.(cropSize)
+      props.setCropSize?.(cropSize)
+      emitCropAreaChange()
+    })
+  }
 
-    props.onCropChange(newPosition)
+  const onCropAreaDragStopped = () => {
+    cropAreaDragHandle = null
     emitCropData()
+    endInteraction()
   }
   const [local, _] = splitProps(props, [
     'image',
@@ -696,9 +1576,13 @@ const Cropper: Component<CropperProps> = paramProps => {
     'transform',
     'crop',
     'rotation',
+    'flip',
     'zoom',
     'cropShape',
     'showGrid',
+    'guides',
+    'guidesVisibility',
+    'children',
     'style',
     'classes',
     'objectFit',
@@ -711,16 +1595,73 @@ const Cropper: Component<CropperProps> = paramProps => {
   const containerClassName = createMemo(() => local.classes!.containerClassName)
   const cropAreaClassName = createMemo(() => local.classes!.cropAreaClassName)
   const mediaClassName = createMemo(() => local.classes!.mediaClassName)
+  // the browser tries each source in turn, the video fails when the last one does
+  const videoSources = createMemo(() =>
+    Array.isArray(local.video) ? local.video : [{ src: local.video! }],
+  )
+  const mediaTransform = createMemo(() => {
+    const animated = animatedTransform()
+    return (
+      local.transform ||
+      [
+        `translate(${animated?.crop.x ?? x()}px, ${animated?.crop.y ?? y()}px)`,
+        `scale(${local.flip?.horizontal ? -1 : 1}, ${local.flip?.vertical ? -1 : 1})`,
+        `rotate(${animated?.rotation ?? local.rotation}deg)`,
+        `scale(${animated?.zoom ?? local.zoom})`,
+      ].join(' ')
+    )
+  })
   const width = createMemo(() => state().cropSize?.width)
   const height = createMemo(() => state().cropSize?.height)
+  const cropShapeRadius = createMemo(() => {
+    const shape = local.cropShape!
+    return typeof shape === 'object' && shape.type === 'roundedRect' ? shape.radius : undefined
+  })
+  // shapes that cannot be drawn with a border-radius are drawn with an svg on top of the crop area
+  const cropShapeMask = createMemo(() =>
+    isCssCropShape(local.cropShape!)
+      ? undefined
+      : getCropShapeMask(local.cropShape!, { width: width() ?? 0, height: height() ?? 0 }),
+  )
+  const guideLines = createMemo(() =>
+    local.guides ? ([] as CropGuide[]).concat(local.guides).flatMap(getCropGuideLines) : [],
+  )
+  const guidesVisible = () => local.guidesVisibility === 'always' || state().isInteracting
+  const cropAreaRenderState: CropAreaRenderState = {
+    get size() {
+      return state().cropSize ?? { width: 0, height: 0 }
+    },
+    get isInteracting() {
+      return state().isInteracting
+    },
+  }
+  // children can be a render function to draw custom guides over the crop area
+  const cropAreaContent = () => {
+    const content = local.children
+    return typeof content === 'function' ? untrack(() => content(cropAreaRenderState)) : content
+  }
   return (
     <div
-      onMouseDown={onMouseDown}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
       onTouchStart={onTouchStart}
+      onKeyDown={onKeyDown}
+      onKeyUp={onKeyUp}
+      onBlur={endKeyboardInteraction}
       ref={containerRef!}
+      tabIndex={0}
+      role="application"
+      aria-label={props.ariaLabel}
+      aria-describedby={instructionsId}
       data-testid="container"
       style={containerStyle()}
-      class={classNames('reactEasyCrop_Container', containerClassName())}
+      class={classNames(
+        'reactEasyCrop_Container',
+        props.gesturePolicy === 'twoFingers' && 'reactEasyCrop_Container_TwoFingers',
+        containerClassName(),
+      )}
     >
       <Switch>
         <Match when={local.image} keyed>
@@ -737,22 +1678,23 @@ const Cropper: Component<CropperProps> = paramProps => {
                   : 'reactEasyCrop_Cover_Vertical'),
               mediaClassName(),
             )}
+            draggable={false}
             {...local.mediaProps}
-            src={local.image}
+            src={imageUrl()}
             ref={imageRef!}
             style={{
               ...mediaStyle(),
-              transform:
-                local.transform ||
-                `translate(${x()}px, ${y()}px) rotate(${local.rotation}deg) scale(${local.zoom})`,
+              ...(getOrientation() && { 'image-orientation': 'from-image' }),
+              transform: mediaTransform(),
             }}
             onLoad={onMediaLoad}
+            onError={() => onMediaError(new Error('Unable to load the image'))}
           />
         </Match>
         <Match when={local.video} keyed>
           <video
-            autoplay
-            loop
+            autoplay={!props.videoControls}
+            loop={!props.videoTimeRange}
             muted={true}
             class={classNames(
               'reactEasyCrop_Video',
@@ -765,38 +1707,169 @@ const Cropper: Component<CropperProps> = paramProps => {
                   : 'reactEasyCrop_Cover_Vertical'),
               mediaClassName(),
             )}
+            draggable={false}
             {...local.mediaProps}
             ref={videoRef!}
-            onLoadedMetadata={onMediaLoad}
+            onLoadedMetadata={onVideoLoadedMetadata}
+            onTimeUpdate={onVideoTimeUpdate}
+            onPlay={() => setIsVideoPaused(false)}
+            onPause={onVideoPause}
+            onSeeked={() => videoRef.paused && emitCropData()}
             style={{
               ...mediaStyle(),
-              transform:
-                local.transform ||
-                `translate(${x}px, ${y}px) rotate(${local.rotation}deg) scale(${local.zoom})`,
+              transform: mediaTransform(),
             }}
             controls={false}
           >
-            <For each={Array.isArray(local.video) ? local.video : [{ src: local.video }]}>
-              {item => <source {...item} />}
+            <For each={videoSources()}>
+              {(item, index) => (
+                <source
+                  {...item}
+                  onError={() =>
+                    index() === videoSources().length - 1 &&
+                    onMediaError(new Error('Unable to load the video'))
+                  }
+                />
+              )}
             </For>
           </video>
         </Match>
       </Switch>
-      <Show when={state().cropSize} keyed>
+      <Show when={local.video && props.videoControls}>
+        <div
+          class="reactEasyCrop_VideoControls"
+          onPointerDown={e => e.stopPropagation()}
+          onTouchStart={e => e.stopPropagation()}
+          onKeyDown={e => e.stopPropagation()}
+        >
+          <button
+            type="button"
+            class="reactEasyCrop_VideoButton"
+            aria-label={isVideoPaused() ? 'Play' : 'Pause'}
+            onClick={toggleVideoPlayback}
+          >
+            {isVideoPaused() ? '\u25B6' : '\u275A\u275A'}
+          </button>
+          <input
+            type="range"
+            class="reactEasyCrop_VideoSeek"
+            aria-label="Seek"
+            min={0}
+            max={videoDuration()}
+            step="any"
+            value={videoTime()}
+            onInput={e => seekVideo(Number(e.currentTarget.value))}
+          />
+          <span class="reactEasyCrop_VideoTime">
+            {formatVideoTime(videoTime())} / {formatVideoTime(videoDuration())}
+          </span>
+          <Show when={props.onVideoTimeRangeChange}>
+            <button
+              type="button"
+              class="reactEasyCrop_VideoButton"
+              aria-label="Start the time range here"
+              onClick={() => setVideoTimeRangeBound('start')}
+            >
+              [
+            </button>
+            <button
+              type="button"
+              class="reactEasyCrop_VideoButton"
+              aria-label="End the time range here"
+              onClick={() => setVideoTimeRangeBound('end')}
+            >
+              ]
+            </button>
+          </Show>
+        </div>
+      </Show>
+      <Show when={state().cropSize}>
         <div
           style={{
             ...cropAreaStyle(),
+            ...(cropShapeRadius() !== undefined && {
+              'border-radius': cropShapeRadius() + 'px',
+            }),
             width: width() + 'px',
             height: height() + 'px',
+            left: `calc(50% + ${state().cropAreaOffset.x}px)`,
+            top: `calc(50% + ${state().cropAreaOffset.y}px)`,
           }}
           data-testid="cropper"
+          aria-hidden="true"
+          onPointerDown={e => props.resizable && onCropAreaPointerDown('move', e)}
+          onTouchStart={e => props.resizable && onCropAreaTouchStart(e)}
           class={classNames(
             'reactEasyCrop_CropArea',
-            local.cropShape === 'round' && 'reactEasyCrop_CropAreaRound',
-            local.showGrid && 'reactEasyCrop_CropAreaGrid',
+            (local.cropShape === 'round' || local.cropShape === 'ellipse') &&
+              'reactEasyCrop_CropAreaRound',
+            cropShapeMask() && 'reactEasyCrop_CropAreaMasked',
+            local.showGrid && !local.guides && guidesVisible() && 'reactEasyCrop_CropAreaGrid',
+            props.resizable && 'reactEasyCrop_CropAreaResizable',
             cropAreaClassName(),
           )}
-        />
+        >
+          <Show when={cropShapeMask()}>
+            <svg
+              class="reactEasyCrop_CropAreaMask"
+              viewBox={`0 0 ${cropShapeMask()!.viewBox.width} ${cropShapeMask()!.viewBox.height}`}
+              preserveAspectRatio="none"
+            >
+              <path
+                class="reactEasyCrop_CropAreaMaskOutside"
+                fill-rule="evenodd"
+                d={`M0 0H${cropShapeMask()!.viewBox.width}V${cropShapeMask()!.viewBox.height}H0Z ${
+                  cropShapeMask()!.path
+                }`}
+              />
+              <path
+                class="reactEasyCrop_CropAreaMaskOutline"
+                vector-effect="non-scaling-stroke"
+                d={cropShapeMask()!.path}
+              />
+            </svg>
+          </Show>
+          <Show when={guideLines().length && guidesVisible()}>
+            <svg
+              class="reactEasyCrop_CropAreaGuides"
+              viewBox="0 0 100 100"
+              preserveAspectRatio="none"
+            >
+              <For each={guideLines()}>
+                {([x1, y1, x2, y2]) => (
+                  <line x1={x1} y1={y1} x2={x2} y2={y2} vector-effect="non-scaling-stroke" />
+                )}
+              </For>
+            </svg>
+          </Show>
+          {cropAreaContent()}
+          <Show when={props.resizable}>
+            <For each={CROP_AREA_HANDLES}>
+              {handle => (
+                <div
+                  data-testid={`cropper-handle-${handle}`}
+                  class={classNames(
+                    'reactEasyCrop_CropAreaHandle',
+                    `reactEasyCrop_CropAreaHandle_${handle}`,
+                  )}
+                  onPointerDown={e => onCropAreaPointerDown(handle, e)}
+                  onTouchStart={onCropAreaTouchStart}
+                />
+              )}
+            </For>
+          </Show>
+        </div>
+      </Show>
+      <div id={instructionsId} class="reactEasyCrop_VisuallyHidden">
+        {props.ariaInstructions}
+      </div>
+      <div aria-live="polite" aria-atomic="true" class="reactEasyCrop_VisuallyHidden">
+        {announcement()}
+      </div>
+      <Show when={gestureHint()}>
+        <div class="reactEasyCrop_GestureHint" aria-hidden="true">
+          {props.formatGestureHint!(gestureHint()!)}
+        </div>
       </Show>
     </div>
   )
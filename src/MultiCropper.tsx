@@ -0,0 +1,284 @@
+import {
+  Component,
+  createMemo,
+  createSignal,
+  For,
+  mergeProps,
+  onCleanup,
+  onMount,
+  Show,
+  splitProps,
+} from 'solid-js'
+import Cropper, { CropperProps, MAX_ZOOM, MIN_ZOOM } from './Cropper'
+import { Area, CroppedRegion, CropDetails, CropRegion, MediaSize, Point, Size } from './types'
+import { computeCrop, CropEngineOutput, getCropAreaSize, getInitialCrop } from './cropEngine'
+import { classNames, getCroppedAreaRect } from './helpers'
+
+export type MultiCropperProps = Omit<
+  CropperProps,
+  | 'crop'
+  | 'zoom'
+  | 'aspect'
+  | 'onCropChange'
+  | 'onZoomChange'
+  | 'cropSize'
+  | 'resizable'
+  | 'lockAspect'
+  | 'initialCroppedAreaPixels'
+  | 'initialCroppedAreaPercentages'
+  | 'initialFocalPoint'
+> & {
+  regions: CropRegion[]
+  activeRegionId?: string
+  onActiveRegionChange?: (id: string) => void
+  onCropRegionsChange?: (regions: CroppedRegion[]) => void
+}
+
+type RegionTransform = {
+  crop: Point
+  zoom: number
+}
+
+const DEFAULT_TRANSFORM: RegionTransform = { crop: { x: 0, y: 0 }, zoom: 1 }
+
+/**
+ * Edit several crop regions of the same media, one at a time.
+ * Each region keeps its own position and zoom, the inactive ones are drawn over the media.
+ */
+const MultiCropper: Component<MultiCropperProps> = paramProps => {
+  const props = mergeProps(
+    {
+      rotation: 0,
+      minZoom: MIN_ZOOM,
+      maxZoom: MAX_ZOOM,
+      restrictPosition: true,
+    },
+    paramProps,
+  )
+  const [local, cropperProps] = splitProps(props, [
+    'regions',
+    'activeRegionId',
+    'onActiveRegionChange',
+    'onCropRegionsChange',
+    'onCropComplete',
+    'onMediaLoaded',
+    'setMediaSize',
+  ])
+  let containerRef: HTMLDivElement
+  let isInitialized = false
+  const [mediaSize, setMediaSize] = createSignal<MediaSize | null>(null)
+  const [containerSize, setContainerSize] = createSignal<Size | null>(null)
+  const [transforms, setTransforms] = createSignal<Record<string, RegionTransform>>({})
+  const [selectedRegionId, setSelectedRegionId] = createSignal<string>()
+
+  const activeRegion = createMemo(() => {
+    const id = local.activeRegionId ?? selectedRegionId()
+    return local.regions.find(region => region.id === id) ?? local.regions[0]
+  })
+
+  const getTransform = (id: string) => transforms()[id] ?? DEFAULT_TRANSFORM
+
+  const updateTransform = (id: string, transform: Partial<RegionTransform>) => {
+    setTransforms(prev => ({ ...prev, [id]: { ...(prev[id] ?? DEFAULT_TRANSFORM), ...transform } }))
+  }
+
+  // this is the crop size the Cropper uses when the region is active
+  const getRegionCropSize = (region: CropRegion): Size | null => {
+    const media = mediaSize()
+    const container = containerSize()
+    if (!media || !container) return null
+
+    return getCropAreaSize(media, container, region.aspect, props.rotation, props.zoomToCover)
+  }
+
+  // what the Cropper displays and reports when the region is active
+  const computeRegionCrop = (region: CropRegion): CropEngineOutput | null => {
+    const media = mediaSize()
+    const container = containerSize()
+    if (!media || !container) return null
+
+    const { crop, zoom } = getTransform(region.id)
+    return computeCrop({
+      containerSize: container,
+      naturalMediaSize: { width: media.naturalWidth, height: media.naturalHeight },
+      aspect: region.aspect,
+      objectFit: props.objectFit,
+      crop,
+      zoom,
+      rotation: props.rotation,
+      flip: props.flip,
+      restrictPosition: props.restrictPosition,
+      letterbox: props.letterbox,
+      zoomToCover: props.zoomToCover,
+      minZoom: props.minZoom,
+      maxZoom: props.maxZoom,
+      minCroppedAreaPixels: props.minCroppedAreaPixels,
+      maxCroppedAreaPixels: props.maxCroppedAreaPixels,
+    })
+  }
+
+  const regionCrops = createMemo(() =>
+    local.regions.flatMap(region => {
+      const regionCrop = computeRegionCrop(region)
+      return regionCrop ? [{ id: region.id, ...regionCrop }] : []
+    }),
+  )
+
+  const croppedRegions = createMemo(() =>
+    regionCrops().map(
+      ({ id, croppedAreaPercentages, croppedAreaPixels }): CroppedRegion => ({
+        id,
+        croppedArea: croppedAreaPercentages,
+        croppedAreaPixels,
+      }),
+    ),
+  )
+
+  const emitCropRegions = () => {
+    if (!isInitialized) return
+    local.onCropRegionsChange?.(croppedRegions())
+  }
+
+  const setInitialCrops = (media: MediaSize) => {
+    local.regions.forEach(region => {
+      const cropSize = getRegionCropSize(region)
+      if (!cropSize) return
+
+      const initialCrop = getInitialCrop(media, cropSize, {
+        initialCroppedAreaPercentages: region.initialCroppedAreaPercentages,
+        initialCroppedAreaPixels: region.initialCroppedAreaPixels,
+        rotation: props.rotation,
+        flip: props.flip,
+        minZoom: props.minZoom,
+        maxZoom: props.maxZoom,
+      })
+      if (initialCrop) updateTransform(region.id, initialCrop)
+    })
+  }
+
+  const onMediaSizeChange = (media: MediaSize) => {
+    const { width, height } = containerRef.getBoundingClientRect()
+    setContainerSize({ width, height })
+    setMediaSize(media)
+    local.setMediaSize?.(media)
+  }
+
+  const onMediaLoaded = (media: MediaSize) => {
+    setInitialCrops(media)
+    isInitialized = true
+    emitCropRegions()
+    local.onMediaLoaded?.(media)
+  }
+
+  const onCropComplete = (croppedArea: Area, croppedAreaPixels: Area, details: CropDetails) => {
+    local.onCropComplete?.(croppedArea, croppedAreaPixels, details)
+    emitCropRegions()
+  }
+
+  const selectRegion = (id: string) => {
+    setSelectedRegionId(id)
+    local.onActiveRegionChange?.(id)
+  }
+
+  const isPointInRect = (point: Point, rect: Area) =>
+    point.x >= rect.x &&
+    point.x <= rect.x + rect.width &&
+    point.y >= rect.y &&
+    point.y <= rect.y + rect.height
+
+  // the region overlays let the pointers through, so the active crop area keeps its drags
+  // and a region is only selected when pressed outside of it
+  const onPointerDownCapture = (e: PointerEvent) => {
+    const active = activeRegion()
+    const activeCropSize = active && getRegionCropSize(active)
+    if (!activeCropSize) return
+
+    const { left, top, width, height } = containerRef.getBoundingClientRect()
+    const point = { x: e.clientX - left - width / 2, y: e.clientY - top - height / 2 }
+    const activeRect = {
+      x: -activeCropSize.width / 2,
+      y: -activeCropSize.height / 2,
+      ...activeCropSize,
+    }
+    if (isPointInRect(point, activeRect)) return
+
+    // the last region is drawn on top
+    const region = [...local.regions].reverse().find(region => {
+      const rect = region.id !== active.id && getRegionRect(region.id)
+      return rect && isPointInRect(point, rect)
+    })
+    if (!region) return
+    e.stopPropagation()
+    selectRegion(region.id)
+  }
+
+  onMount(() => {
+    containerRef.addEventListener('pointerdown', onPointerDownCapture, { capture: true })
+  })
+  onCleanup(() => {
+    containerRef?.removeEventListener('pointerdown', onPointerDownCapture, { capture: true })
+  })
+
+  // position of each region on the media, as currently displayed
+  const getRegionRect = (id: string): Area | null => {
+    const media = mediaSize()
+    const region = regionCrops().find(region => region.id === id)
+    const active = regionCrops().find(region => region.id === activeRegion()?.id)
+    if (!media || !region || !active) return null
+
+    return getCroppedAreaRect(
+      region.croppedAreaPercentages,
+      media,
+      active.crop,
+      active.zoom,
+      props.rotation,
+      props.flip,
+    )
+  }
+
+  return (
+    <div ref={containerRef!} class="reactEasyCrop_MultiContainer">
+      <Show when={activeRegion()}>
+        <Cropper
+          {...cropperProps}
+          crop={getTransform(activeRegion()!.id).crop}
+          zoom={getTransform(activeRegion()!.id).zoom}
+          aspect={activeRegion()!.aspect}
+          onCropChange={crop => updateTransform(activeRegion()!.id, { crop })}
+          onZoomChange={zoom => updateTransform(activeRegion()!.id, { zoom })}
+          onCropComplete={onCropComplete}
+          onMediaLoaded={onMediaLoaded}
+          setMediaSize={onMediaSizeChange}
+        />
+      </Show>
+      <div class="reactEasyCrop_Regions">
+        <For each={local.regions}>
+          {region => {
+            const rect = createMemo(() => getRegionRect(region.id))
+            return (
+              <Show when={rect()}>
+                <div
+                  data-testid={`region-${region.id}`}
+                  class={classNames(
+                    'reactEasyCrop_Region',
+                    activeRegion()?.id === region.id && 'reactEasyCrop_RegionActive',
+                  )}
+                  style={{
+                    left: `calc(50% + ${rect()!.x}px)`,
+                    top: `calc(50% + ${rect()!.y}px)`,
+                    width: `${rect()!.width}px`,
+                    height: `${rect()!.height}px`,
+                  }}
+                >
+                  <span class="reactEasyCrop_RegionLabel">{region.label ?? region.id}</span>
+                </div>
+              </Show>
+            )
+          }}
+        </For>
+      </div>
+    </div>
+  )
+}
+
+export default MultiCropper
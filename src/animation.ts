@@ -0,0 +1,36 @@
+import { Point } from './types'
+
+export type TimedPoint = Point & { time: number }
+
+/**
+ * Default easing of the animated changes.
+ */
+export function easeOutCubic(t: number) {
+  return 1 - Math.pow(1 - t, 3)
+}
+
+/**
+ * Interpolate between two values, t being between 0 and 1.
+ */
+export function interpolate(from: number, to: number, t: number) {
+  return from + (to - from) * t
+}
+
+/**
+ * Compute the velocity (in pixels per millisecond) of the latest moves.
+ * Only the samples of the last `window` milliseconds are used, so a pause before the release stops the media.
+ */
+export function getVelocity(samples: TimedPoint[], now: number, window = 100): Point {
+  const recentSamples = samples.filter(sample => now - sample.time <= window)
+  const first = recentSamples[0]
+  const last = recentSamples[recentSamples.length - 1]
+  if (!first || !last || last.time === first.time) {
+    return { x: 0, y: 0 }
+  }
+
+  const duration = last.time - first.time
+  return {
+    x: (last.x - first.x) / duration,
+    y: (last.y - first.y) / duration,
+  }
+}
@@ -0,0 +1,59 @@
+import { Accessor, createSignal } from 'solid-js'
+import { Size } from './types'
+
+export type AspectPreset = {
+  id: string
+  label: string
+  aspect: number
+  // size of the exported image, when the destination expects one
+  outputSize?: Size
+}
+
+export type AspectPresetRegistry = {
+  presets: Accessor<AspectPreset[]>
+  get: (id: string) => AspectPreset | undefined
+  register: (preset: AspectPreset) => void
+  unregister: (id: string) => void
+}
+
+export const DEFAULT_ASPECT_PRESETS: AspectPreset[] = [
+  { id: '1:1', label: '1:1', aspect: 1 },
+  { id: '4:5', label: '4:5', aspect: 4 / 5 },
+  { id: '16:9', label: '16:9', aspect: 16 / 9 },
+  { id: '9:16', label: '9:16', aspect: 9 / 16 },
+  { id: '3:2', label: '3:2', aspect: 3 / 2 },
+  { id: 'profile', label: 'Profile photo', aspect: 1, outputSize: { width: 400, height: 400 } },
+  { id: 'banner', label: 'Banner', aspect: 3, outputSize: { width: 1500, height: 500 } },
+  { id: 'story', label: 'Story', aspect: 9 / 16, outputSize: { width: 1080, height: 1920 } },
+]
+
+/**
+ * Create a registry of named aspect presets, the default ones unless others are given.
+ * Registering a preset with an existing id replaces it.
+ */
+export function createAspectPresetRegistry(
+  initialPresets: AspectPreset[] = DEFAULT_ASPECT_PRESETS,
+): AspectPresetRegistry {
+  const [presets, setPresets] = createSignal<AspectPreset[]>([])
+
+  const register = (preset: AspectPreset) => {
+    if (!(preset.aspect > 0)) {
+      throw new Error(`Invalid aspect for the ${preset.id} preset: ${preset.aspect}`)
+    }
+    setPresets(prev => {
+      const index = prev.findIndex(({ id }) => id === preset.id)
+      return index === -1
+        ? [...prev, preset]
+        : [...prev.slice(0, index), preset, ...prev.slice(index + 1)]
+    })
+  }
+
+  initialPresets.forEach(register)
+
+  return {
+    presets,
+    get: id => presets().find(preset => preset.id === id),
+    register,
+    unregister: id => setPresets(prev => prev.filter(preset => preset.id !== id)),
+  }
+}
@@ -0,0 +1,183 @@
+import { Area, Size } from './types'
+import { DrawableSource, getSourceSize } from './cropImage'
+
+export type AutoCropWeights = {
+  // density of edges, compared to the whole image
+  edges: number
+  // variety of the luminance
+  entropy: number
+  // share of skin-toned pixels
+  skin: number
+  // distance to the center of the image, to break ties
+  center: number
+}
+
+export type AutoCropOptions = {
+  // size of the longest side of the downsampled image that is analyzed
+  sampleSize?: number
+  // sizes of the candidate crops, relative to the largest crop of the aspect
+  scales?: number[]
+  weights?: Partial<AutoCropWeights>
+}
+
+type ImageDataLike = Pick<ImageData, 'data' | 'width' | 'height'>
+
+const DEFAULT_WEIGHTS: AutoCropWeights = { edges: 1, entropy: 0.5, skin: 1, center: 0.1 }
+
+const HISTOGRAM_BINS = 16
+
+/**
+ * Build a summed-area table, so the sum of a rectangle is read in constant time.
+ */
+function createIntegral(width: number, height: number, getValue: (index: number) => number) {
+  const table = new Float64Array((width + 1) * (height + 1))
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0
+    for (let x = 0; x < width; x++) {
+      rowSum += getValue(y * width + x)
+      table[(y + 1) * (width + 1) + x + 1] = table[y * (width + 1) + x + 1]! + rowSum
+    }
+  }
+  return (x: number, y: number, w: number, h: number) =>
+    table[(y + h) * (width + 1) + x + w]! -
+    table[y * (width + 1) + x + w]! -
+    table[(y + h) * (width + 1) + x]! +
+    table[y * (width + 1) + x]!
+}
+
+function isSkinTone(r: number, g: number, b: number) {
+  return (
+    r > 95 && g > 40 && b > 20 && r > g && r > b && r - Math.min(g, b) > 15 && Math.abs(r - g) > 15
+  )
+}
+
+// the offsets of the candidates on an axis, the last one touches the far edge even off the step grid
+function getOffsets(maxOffset: number, step: number) {
+  const offsets: number[] = []
+  for (let offset = 0; offset < maxOffset; offset += step) {
+    offsets.push(offset)
+  }
+  offsets.push(Math.max(0, maxOffset))
+  return offsets
+}
+
+/**
+ * Find the crop of the given aspect with the most interesting content in an image data,
+ * scoring candidates with edge energy, luminance entropy and skin tones.
+ * The returned area is in pixels of the image data.
+ */
+export function getAutoCropFromImageData(
+  { data, width, height }: ImageDataLike,
+  aspect: number,
+  { scales = [1], weights: weightsOption }: Pick<AutoCropOptions, 'scales' | 'weights'> = {},
+): Area {
+  const weights = { ...DEFAULT_WEIGHTS, ...weightsOption }
+  const luminance = new Float64Array(width * height)
+  for (let i = 0; i < width * height; i++) {
+    luminance[i] = 0.299 * data[i * 4]! + 0.587 * data[i * 4 + 1]! + 0.114 * data[i * 4 + 2]!
+  }
+  const getLuminance = (x: number, y: number) =>
+    luminance[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))]!
+
+  const edgeSum = createIntegral(width, height, i => {
+    const x = i % width
+    const y = Math.floor(i / width)
+    return (
+      (Math.abs(getLuminance(x + 1, y) - getLuminance(x - 1, y)) +
+        Math.abs(getLuminance(x, y + 1) - getLuminance(x, y - 1))) /
+      510
+    )
+  })
+  const skinSum = createIntegral(width, height, i =>
+    isSkinTone(data[i * 4]!, data[i * 4 + 1]!, data[i * 4 + 2]!) ? 1 : 0,
+  )
+  const binSums = Array.from({ length: HISTOGRAM_BINS }, (_, bin) =>
+    createIntegral(width, height, i =>
+      Math.min(HISTOGRAM_BINS - 1, Math.floor((luminance[i]! / 256) * HISTOGRAM_BINS)) === bin
+        ? 1
+        : 0,
+    ),
+  )
+  const meanEdges = edgeSum(0, 0, width, height) / (width * height)
+
+  const maxWidth = Math.min(width, height * aspect)
+  const maxDistance = Math.hypot(width, height) / 2
+  let best = { score: -Infinity, area: { x: 0, y: 0, width: maxWidth, height: maxWidth / aspect } }
+
+  scales.forEach(scale => {
+    const cropWidth = Math.max(1, Math.round(maxWidth * scale))
+    const cropHeight = Math.max(1, Math.min(height, Math.round(cropWidth / aspect)))
+    const pixels = cropWidth * cropHeight
+    // a few percent of the image between candidates is precise enough for a suggestion
+    const step = Math.max(1, Math.round(Math.min(width, height) * 0.04))
+
+    const offsetsX = getOffsets(width - cropWidth, step)
+    const offsetsY = getOffsets(height - cropHeight, step)
+
+    for (const y of offsetsY) {
+      for (const x of offsetsX) {
+        const entropy = binSums.reduce((sum, binSum) => {
+          const p = binSum(x, y, cropWidth, cropHeight) / pixels
+          return p > 0 ? sum - p * Math.log2(p) : sum
+        }, 0)
+        const distance = Math.hypot(x + cropWidth / 2 - width / 2, y + cropHeight / 2 - height / 2)
+        const score =
+          weights.edges *
+            (meanEdges > 0 ? edgeSum(x, y, cropWidth, cropHeight) / pixels / meanEdges : 0) +
+          weights.entropy * (entropy / Math.log2(HISTOGRAM_BINS)) +
+          weights.skin * (skinSum(x, y, cropWidth, cropHeight) / pixels) -
+          weights.center * (maxDistance > 0 ? distance / maxDistance : 0)
+        if (score > best.score) {
+          best = { score, area: { x, y, width: cropWidth, height: cropHeight } }
+        }
+      }
+    }
+  })
+
+  return best.area
+}
+
+/**
+ * Suggest a crop of the given aspect for an image, e.g. the imageRef of a loaded Cropper.
+ * The image is downsampled on a small canvas and analyzed with getAutoCropFromImageData.
+ * The returned area is in natural pixels, ready for initialCroppedAreaPixels (without rotation).
+ */
+export function getAutoCrop(
+  source: DrawableSource,
+  aspect: number,
+  { sampleSize = 96, ...options }: AutoCropOptions = {},
+): Area {
+  const naturalSize = getSourceSize(source)
+  const ratio = Math.min(1, sampleSize / Math.max(naturalSize.width, naturalSize.height))
+  const sample: Size = {
+    width: Math.max(1, Math.round(naturalSize.width * ratio)),
+    height: Math.max(1, Math.round(naturalSize.height * ratio)),
+  }
+  const canvas = document.createElement('canvas')
+  canvas.width = sample.width
+  canvas.height = sample.height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not supported')
+  }
+  ctx.drawImage(source, 0, 0, sample.width, sample.height)
+
+  const area = getAutoCropFromImageData(
+    ctx.getImageData(0, 0, sample.width, sample.height),
+    aspect,
+    options,
+  )
+  // the crop is rebuilt at full resolution so it keeps the exact aspect
+  const scaleX = naturalSize.width / sample.width
+  const scaleY = naturalSize.height / sample.height
+  const exactWidth = Math.min(naturalSize.width, naturalSize.height * aspect, area.width * scaleX)
+  const cropWidth = Math.round(exactWidth)
+  const cropHeight = Math.round(exactWidth / aspect)
+
+  return {
+    x: Math.max(0, Math.round(Math.min(naturalSize.width - cropWidth, area.x * scaleX))),
+    y: Math.max(0, Math.round(Math.min(naturalSize.height - cropHeight, area.y * scaleY))),
+    width: cropWidth,
+    height: cropHeight,
+  }
+}
@@ -0,0 +1,79 @@
+import { Accessor, createMemo, createSignal } from 'solid-js'
+import { AspectPreset, AspectPresetRegistry, createAspectPresetRegistry } from './aspectPresets'
+import { CropperController } from './Cropper'
+import { CropperState } from './createCropperState'
+import { getCenteredAreaForAspect } from './helpers'
+import { Area, Size } from './types'
+
+export type AspectSwitcherOptions = {
+  registry?: AspectPresetRegistry
+  initialPresetId?: string
+}
+
+export type AspectSwitcherProps = {
+  setController: (controller: CropperController) => void
+  setCropSize: (size: Size) => void
+}
+
+export type AspectSwitcher = {
+  presets: Accessor<AspectPreset[]>
+  presetId: Accessor<string | undefined>
+  preset: Accessor<AspectPreset | undefined>
+  select: (id: string) => void
+  props: AspectSwitcherProps
+}
+
+/**
+ * Switch the aspect of a cropper state between named presets.
+ * The new crop keeps the center of the current one, its props must be spread on the Cropper.
+ */
+export function createAspectSwitcher(
+  state: CropperState,
+  { registry = createAspectPresetRegistry(), initialPresetId }: AspectSwitcherOptions = {},
+): AspectSwitcher {
+  const [presetId, setPresetId] = createSignal<string>()
+  const preset = createMemo(() => {
+    const id = presetId()
+    return id === undefined ? undefined : registry.get(id)
+  })
+  let controller: CropperController | undefined
+  // area to fit once the Cropper has computed the crop area of the new aspect
+  let pendingArea: Area | undefined
+
+  const fitPendingArea = () => {
+    if (controller && pendingArea) controller.fitArea(pendingArea)
+    pendingArea = undefined
+  }
+
+  const select = (id: string) => {
+    const nextPreset = registry.get(id)
+    if (!nextPreset) {
+      throw new Error(`Unknown aspect preset: ${id}`)
+    }
+    const croppedArea = state.croppedArea()
+    const croppedAreaPixels = state.croppedAreaPixels()
+    const isAspectChanged = nextPreset.aspect !== state.aspect()
+
+    setPresetId(id)
+    pendingArea =
+      croppedArea && croppedAreaPixels
+        ? getCenteredAreaForAspect(croppedArea, croppedAreaPixels, nextPreset.aspect)
+        : undefined
+    state.setAspect(nextPreset.aspect)
+    // the crop size only changes, and is reported, with the aspect
+    if (!isAspectChanged) fitPendingArea()
+  }
+
+  if (initialPresetId !== undefined) select(initialPresetId)
+
+  return {
+    presets: registry.presets,
+    presetId,
+    preset,
+    select,
+    props: {
+      setController: value => (controller = value),
+      setCropSize: fitPendingArea,
+    },
+  }
+}
@@ -0,0 +1,110 @@
+import { Accessor, createMemo, createSignal } from 'solid-js'
+import { CropperState } from './createCropperState'
+import { Point } from './types'
+
+export type CropperHistoryOptions = {
+  depth?: number
+}
+
+export type CropperSnapshot = {
+  crop: Point
+  zoom: number
+  rotation: number
+}
+
+export type CropperHistoryProps = {
+  onInteractionEnd: () => void
+  onMediaLoaded: () => void
+  onUndo: () => void
+  onRedo: () => void
+}
+
+export type CropperHistory = {
+  undo: () => void
+  redo: () => void
+  canUndo: Accessor<boolean>
+  canRedo: Accessor<boolean>
+  record: () => void
+  clear: () => void
+  props: CropperHistoryProps
+}
+
+const HISTORY_DEPTH = 50
+
+function isSameSnapshot(a: CropperSnapshot, b: CropperSnapshot) {
+  return (
+    a.crop.x === b.crop.x && a.crop.y === b.crop.y && a.zoom === b.zoom && a.rotation === b.rotation
+  )
+}
+
+/**
+ * Record the crop, zoom and rotation of a cropper state at the end of each interaction,
+ * so they can be undone and redone. Keyboard and controller changes are interactions too.
+ * The returned props can be spread on the Cropper after the state props.
+ */
+export function createCropperHistory(
+  state: CropperState,
+  options: CropperHistoryOptions = {},
+): CropperHistory {
+  const depth = Math.max(1, options.depth ?? HISTORY_DEPTH)
+  const getSnapshot = (): CropperSnapshot => ({
+    crop: state.crop(),
+    zoom: state.zoom(),
+    rotation: state.rotation(),
+  })
+  const [history, setHistory] = createSignal({ entries: [getSnapshot()], index: 0 })
+
+  const canUndo = createMemo(() => history().index > 0)
+  const canRedo = createMemo(() => history().index < history().entries.length - 1)
+
+  const record = () => {
+    const snapshot = getSnapshot()
+    setHistory(prev => {
+      if (isSameSnapshot(prev.entries[prev.index]!, snapshot)) return prev
+
+      // recording after an undo drops the redo entries
+      const entries = [...prev.entries.slice(0, prev.index + 1), snapshot].slice(-(depth + 1))
+      return { entries, index: entries.length - 1 }
+    })
+  }
+
+  const goTo = (index: number) => {
+    const snapshot = history().entries[index]
+    if (!snapshot) return
+
+    setHistory(prev => ({ ...prev, index }))
+    state.setCrop(snapshot.crop)
+    state.setZoom(snapshot.zoom)
+    state.setRotation(snapshot.rotation)
+  }
+
+  const undo = () => {
+    if (canUndo()) goTo(history().index - 1)
+  }
+  const redo = () => {
+    if (canRedo()) goTo(history().index + 1)
+  }
+  const clear = () => setHistory({ entries: [getSnapshot()], index: 0 })
+
+  const onInteractionEnd = () => {
+    // the last drag frame is applied in a pending animation frame, record after it
+    if (typeof window !== 'undefined' && window.requestAnimationFrame) {
+      window.requestAnimationFrame(record)
+    } else {
+      record()
+    }
+  }
+
+  // the initial crop (initialCroppedArea*, initialFocalPoint) is applied before onMediaLoaded
+  const onMediaLoaded = () => clear()
+
+  return {
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    record,
+    clear,
+    props: { onInteractionEnd, onMediaLoaded, onUndo: undo, onRedo: redo },
+  }
+}
@@ -0,0 +1,110 @@
+import { Accessor, createSignal, Setter } from 'solid-js'
+import { Area, Flip, Point } from './types'
+
+export type CropperStateOptions = {
+  crop?: Point
+  zoom?: number
+  rotation?: number
+  flip?: Flip
+  aspect?: number
+}
+
+export type CropperStateProps = {
+  readonly crop: Point
+  readonly zoom: number
+  readonly rotation: number
+  readonly flip: Flip
+  readonly aspect: number
+  onCropChange: (crop: Point) => void
+  onZoomChange: (zoom: number) => void
+  onRotationChange: (rotation: number) => void
+  onCropAreaChange: (croppedArea: Area, croppedAreaPixels: Area) => void
+}
+
+export type CropperState = {
+  crop: Accessor<Point>
+  setCrop: Setter<Point>
+  zoom: Accessor<number>
+  setZoom: Setter<number>
+  rotation: Accessor<number>
+  setRotation: Setter<number>
+  flip: Accessor<Flip>
+  setFlip: Setter<Flip>
+  aspect: Accessor<number>
+  setAspect: Setter<number>
+  croppedArea: Accessor<Area | null>
+  croppedAreaPixels: Accessor<Area | null>
+  props: CropperStateProps
+  reset: () => void
+}
+
+/**
+ * Create the state of a controlled Cropper.
+ * The returned props can be spread on the Cropper: `<Cropper image={src} {...cropper.props} />`
+ */
+export function createCropperState(options: CropperStateOptions = {}): CropperState {
+  const initialState = {
+    crop: options.crop ?? { x: 0, y: 0 },
+    zoom: options.zoom ?? 1,
+    rotation: options.rotation ?? 0,
+    flip: options.flip ?? { horizontal: false, vertical: false },
+    aspect: options.aspect ?? 4 / 3,
+  }
+  const [crop, setCrop] = createSignal(initialState.crop)
+  const [zoom, setZoom] = createSignal(initialState.zoom)
+  const [rotation, setRotation] = createSignal(initialState.rotation)
+  const [flip, setFlip] = createSignal(initialState.flip)
+  const [aspect, setAspect] = createSignal(initialState.aspect)
+  const [croppedArea, setCroppedArea] = createSignal<Area | null>(null)
+  const [croppedAreaPixels, setCroppedAreaPixels] = createSignal<Area | null>(null)
+
+  const props: CropperStateProps = {
+    get crop() {
+      return crop()
+    },
+    get zoom() {
+      return zoom()
+    },
+    get rotation() {
+      return rotation()
+    },
+    get flip() {
+      return flip()
+    },
+    get aspect() {
+      return aspect()
+    },
+    onCropChange: setCrop,
+    onZoomChange: setZoom,
+    onRotationChange: setRotation,
+    onCropAreaChange: (area, areaPixels) => {
+      setCroppedArea(area)
+      setCroppedAreaPixels(areaPixels)
+    },
+  }
+
+  const reset = () => {
+    setCrop(initialState.crop)
+    setZoom(initialState.zoom)
+    setRotation(initialState.rotation)
+    setFlip(initialState.flip)
+    setAspect(initialState.aspect)
+  }
+
+  return {
+    crop,
+    setCrop,
+    zoom,
+    setZoom,
+    rotation,
+    setRotation,
+    flip,
+    setFlip,
+    aspect,
+    setAspect,
+    croppedArea,
+    croppedAreaPixels,
+    props,
+    reset,
+  }
+}
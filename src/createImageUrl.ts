@@ -0,0 +1,46 @@
+import { Accessor, createEffect, createMemo, createSignal, onCleanup } from 'solid-js'
+import { ImageSource } from './types'
+import { getSourceBlob } from './cropImage'
+
+/**
+ * Give an url displaying an image source. Object urls are created for Blobs and drawn sources,
+ * and revoked when the source changes or the owner is disposed.
+ * The url of a drawn source is available once it is encoded, onError is called if that fails.
+ */
+export function createImageUrl(
+  source: Accessor<ImageSource | undefined>,
+  onError: (error: Error) => void,
+): Accessor<string | undefined> {
+  const [objectUrl, setObjectUrl] = createSignal<string>()
+
+  createEffect(() => {
+    const image = source()
+    setObjectUrl(undefined)
+    if (image === undefined || typeof image === 'string') return
+
+    let url: string | undefined
+    let isCurrent = true
+    onCleanup(() => {
+      isCurrent = false
+      if (url) URL.revokeObjectURL(url)
+    })
+    const setBlob = (blob: Blob) => {
+      if (!isCurrent) return
+      url = URL.createObjectURL(blob)
+      setObjectUrl(url)
+    }
+
+    if (image instanceof Blob) {
+      setBlob(image)
+    } else {
+      getSourceBlob(image).then(setBlob, error => {
+        if (isCurrent) onError(error instanceof Error ? error : new Error(String(error)))
+      })
+    }
+  })
+
+  return createMemo(() => {
+    const image = source()
+    return typeof image === 'string' ? image : objectUrl()
+  })
+}
@@ -0,0 +1,435 @@
+import { Area, Flip, FocalPoint, MediaSize, ObjectFit, Padding, Point, Size } from './types'
+import {
+  clamp,
+  computeCroppedArea,
+  getCoverZoom,
+  getCropSize,
+  getCroppedAreaPadding,
+  getCroppedAreaZoomRange,
+  getInitialCropFromCroppedAreaPercentages,
+  getInitialCropFromCroppedAreaPixels,
+  getInitialCropFromFocalPoint,
+  restrictPosition,
+  restrictPositionInRotatedMedia,
+  rotateSize,
+} from './helpers'
+
+export const MIN_ZOOM = 1
+export const MAX_ZOOM = 3
+
+/**
+ * Compute the size of the media as displayed in the container, before zoom and rotation.
+ * This matches the css applied to the media for each objectFit.
+ */
+export function getRenderedMediaSize(
+  containerSize: Size,
+  naturalSize: Size,
+  objectFit: ObjectFit = 'contain',
+): Size {
+  const mediaAspect = naturalSize.width / naturalSize.height
+  const fitWidth = { width: containerSize.width, height: containerSize.width / mediaAspect }
+  const fitHeight = { width: containerSize.height * mediaAspect, height: containerSize.height }
+
+  switch (objectFit) {
+    case 'horizontal-cover':
+      return fitWidth
+    case 'vertical-cover':
+      return fitHeight
+    case 'auto-cover':
+      return naturalSize.width > naturalSize.height ? fitWidth : fitHeight
+    default:
+    case 'contain':
+      // the media is never scaled up
+      if (naturalSize.width <= containerSize.width && naturalSize.height <= containerSize.height) {
+        return { width: naturalSize.width, height: naturalSize.height }
+      }
+      return containerSize.width / containerSize.height > mediaAspect ? fitHeight : fitWidth
+  }
+}
+
+/**
+ * Compute the position of the media after zooming around a point,
+ * so the point of the media under it stays in place.
+ * point is relative to the center of the container, positive towards the top-left like crop.
+ */
+export function getZoomedCrop(point: Point, crop: Point, zoom: number, newZoom: number): Point {
+  // point of the media under the zoom point, at zoom 1
+  const target = { x: (point.x + crop.x) / zoom, y: (point.y + crop.y) / zoom }
+  return {
+    x: target.x * newZoom - point.x,
+    y: target.y * newZoom - point.y,
+  }
+}
+
+/**
+ * Compute the size of the crop area for an aspect, inside the media and the container.
+ * With zoomToCover, the crop area keeps its size while straightening, the media zooms in instead.
+ */
+export function getCropAreaSize(
+  mediaSize: Size,
+  containerSize: Size,
+  aspect: number,
+  rotation = 0,
+  zoomToCover = false,
+): Size {
+  return getCropSize(
+    mediaSize.width,
+    mediaSize.height,
+    containerSize.width,
+    containerSize.height,
+    aspect,
+    zoomToCover ? 0 : rotation,
+  )
+}
+
+export type RestrictCropOptions = {
+  zoom: number
+  rotation?: number
+  flip?: Flip
+  letterbox?: boolean
+  zoomToCover?: boolean
+  // position of a resized crop area, relative to the center of the container
+  cropAreaOffset?: Point
+}
+
+/**
+ * Restrict a position of the media, relative to the center of the container like the crop prop,
+ * so the media covers the crop area. With zoomToCover the rotated media itself covers it,
+ * not only its bounding box.
+ */
+export function restrictCropPosition(
+  crop: Point,
+  mediaSize: Size,
+  cropSize: Size,
+  {
+    zoom,
+    rotation = 0,
+    flip,
+    letterbox = false,
+    zoomToCover = false,
+    cropAreaOffset = { x: 0, y: 0 },
+  }: RestrictCropOptions,
+): Point {
+  const relativeCrop = { x: crop.x - cropAreaOffset.x, y: crop.y - cropAreaOffset.y }
+  const restricted =
+    zoomToCover && !letterbox
+      ? restrictPositionInRotatedMedia(relativeCrop, mediaSize, cropSize, zoom, rotation, flip)
+      : restrictPosition(relativeCrop, mediaSize, cropSize, zoom, rotation, letterbox)
+  return { x: restricted.x + cropAreaOffset.x, y: restricted.y + cropAreaOffset.y }
+}
+
+export type ZoomRangeOptions = {
+  minZoom: number
+  maxZoom: number
+  rotation?: number
+  restrictPosition?: boolean
+  letterbox?: boolean
+  zoomToCover?: boolean
+  // a crop area resized by the user can be larger than the media at minZoom
+  resizable?: boolean
+  minCroppedAreaPixels?: Size
+  maxCroppedAreaPixels?: Size
+}
+
+export type ZoomRange = {
+  minZoom: number
+  maxZoom: number
+  // the minimum zoom for the media to cover the crop area
+  coverMinZoom: number
+  // the zooms keeping the cropped area between minCroppedAreaPixels and maxCroppedAreaPixels
+  croppedAreaZoomRange: { minZoom: number; maxZoom: number }
+}
+
+/**
+ * Compute the zooms a Cropper allows, from minZoom and maxZoom narrowed by zoomToCover,
+ * a resized crop area and the cropped area limits.
+ */
+export function getZoomRange(
+  mediaSize: MediaSize,
+  cropSize: Size,
+  {
+    minZoom,
+    maxZoom,
+    rotation = 0,
+    restrictPosition = true,
+    letterbox = false,
+    zoomToCover = false,
+    resizable = false,
+    minCroppedAreaPixels,
+    maxCroppedAreaPixels,
+  }: ZoomRangeOptions,
+): ZoomRange {
+  let coverMinZoom = minZoom
+  if (restrictPosition && !letterbox && mediaSize.width) {
+    if (zoomToCover) {
+      coverMinZoom = Math.max(minZoom, getCoverZoom(mediaSize, cropSize, rotation))
+    } else if (resizable) {
+      const { width, height } = rotateSize(mediaSize.width, mediaSize.height, rotation)
+      coverMinZoom = Math.max(minZoom, cropSize.width / width, cropSize.height / height)
+    }
+  }
+  const croppedAreaZoomRange = mediaSize.naturalWidth
+    ? getCroppedAreaZoomRange(mediaSize, cropSize, minCroppedAreaPixels, maxCroppedAreaPixels)
+    : { minZoom: 0, maxZoom: Infinity }
+  const rangeMinZoom = Math.max(coverMinZoom, croppedAreaZoomRange.minZoom)
+
+  return {
+    minZoom: rangeMinZoom,
+    // a media too small for minCroppedAreaPixels should not prevent the minimum zoom
+    maxZoom: Math.max(rangeMinZoom, Math.min(maxZoom, croppedAreaZoomRange.maxZoom)),
+    coverMinZoom,
+    croppedAreaZoomRange,
+  }
+}
+
+export type CroppedAreaOptions = {
+  aspect: number
+  zoom: number
+  rotation?: number
+  flip?: Flip
+  restrictPosition?: boolean
+  letterbox?: boolean
+}
+
+export type CroppedAreas = {
+  croppedAreaPercentages: Area
+  croppedAreaPixels: Area
+  padding: Padding
+}
+
+/**
+ * Compute the cropped areas of the media, and the padding of an area going beyond it.
+ * crop is relative to the crop area.
+ */
+export function getCroppedAreas(
+  crop: Point,
+  mediaSize: MediaSize,
+  cropSize: Size,
+  {
+    aspect,
+    zoom,
+    rotation = 0,
+    flip,
+    restrictPosition = true,
+    letterbox = false,
+  }: CroppedAreaOptions,
+): CroppedAreas {
+  const croppedAreas = computeCroppedArea(
+    crop,
+    mediaSize,
+    cropSize,
+    aspect,
+    zoom,
+    rotation,
+    // with letterbox, the area goes beyond the media and the difference is reported as padding
+    restrictPosition && !letterbox,
+    flip,
+  )
+  return {
+    ...croppedAreas,
+    padding: getCroppedAreaPadding(
+      croppedAreas.croppedAreaPixels,
+      rotateSize(mediaSize.naturalWidth, mediaSize.naturalHeight, rotation),
+      flip,
+    ),
+  }
+}
+
+export type InitialCropOptions = {
+  initialCroppedAreaPercentages?: Area
+  initialCroppedAreaPixels?: Area
+  initialFocalPoint?: FocalPoint
+  rotation?: number
+  flip?: Flip
+  minZoom: number
+  maxZoom: number
+  // keeps the media in the crop area when centering it on a focal point, like restrictCropPosition
+  restrictPosition?: boolean
+  letterbox?: boolean
+  zoomToCover?: boolean
+}
+
+/**
+ * Compute the crop and zoom showing an initial cropped area or focal point, or null without one.
+ */
+export function getInitialCrop(
+  mediaSize: MediaSize,
+  cropSize: Size,
+  {
+    initialCroppedAreaPercentages,
+    initialCroppedAreaPixels,
+    initialFocalPoint,
+    rotation = 0,
+    flip,
+    minZoom,
+    maxZoom,
+    restrictPosition = true,
+    letterbox,
+    zoomToCover,
+  }: InitialCropOptions,
+): { crop: Point; zoom: number } | null {
+  if (initialCroppedAreaPercentages) {
+    return getInitialCropFromCroppedAreaPercentages(
+      initialCroppedAreaPercentages,
+      mediaSize,
+      rotation,
+      cropSize,
+      minZoom,
+      maxZoom,
+      flip,
+    )
+  }
+  if (initialCroppedAreaPixels) {
+    return getInitialCropFromCroppedAreaPixels(
+      initialCroppedAreaPixels,
+      mediaSize,
+      rotation,
+      cropSize,
+      minZoom,
+      maxZoom,
+      flip,
+    )
+  }
+  if (initialFocalPoint) {
+    const { crop, zoom } = getInitialCropFromFocalPoint(
+      initialFocalPoint,
+      mediaSize,
+      rotation,
+      cropSize,
+      minZoom,
+      maxZoom,
+      flip,
+      false,
+    )
+    return {
+      crop: restrictPosition
+        ? restrictCropPosition(crop, mediaSize, cropSize, {
+            zoom,
+            rotation,
+            flip,
+            letterbox,
+            zoomToCover,
+          })
+        : crop,
+      zoom,
+    }
+  }
+  return null
+}
+
+export type CropEngineInput = {
+  containerSize: Size
+  naturalMediaSize: Size
+  aspect: number
+  objectFit?: ObjectFit
+  // a fixed crop area size, or the size of a crop area resized by the user,
+  // computed from the aspect by default
+  cropSize?: Size
+  // position of a resized crop area, relative to the center of the container
+  cropAreaOffset?: Point
+  crop: Point
+  zoom: number
+  rotation?: number
+  flip?: Flip
+  restrictPosition?: boolean
+  letterbox?: boolean
+  zoomToCover?: boolean
+  resizable?: boolean
+  minZoom?: number
+  maxZoom?: number
+  minCroppedAreaPixels?: Size
+  maxCroppedAreaPixels?: Size
+}
+
+export type CropEngineOutput = CroppedAreas & {
+  mediaSize: MediaSize
+  cropSize: Size
+  // the crop once restricted to the media
+  crop: Point
+  // the zoom once brought in the range of zoomToCover and the cropped area limits
+  zoom: number
+  minZoom: number
+  maxZoom: number
+}
+
+/**
+ * Reproduce what a Cropper with the given props displays and reports, without any DOM.
+ * It can run on a server or in a worker to validate a crop.
+ */
+export function computeCrop({
+  containerSize,
+  naturalMediaSize,
+  aspect,
+  objectFit,
+  cropSize: fixedCropSize,
+  cropAreaOffset,
+  crop,
+  zoom: requestedZoom,
+  rotation = 0,
+  flip,
+  restrictPosition: shouldRestrictPosition = true,
+  letterbox = false,
+  zoomToCover = false,
+  resizable = false,
+  minZoom = MIN_ZOOM,
+  maxZoom = MAX_ZOOM,
+  minCroppedAreaPixels,
+  maxCroppedAreaPixels,
+}: CropEngineInput): CropEngineOutput {
+  const mediaSize = {
+    ...getRenderedMediaSize(containerSize, naturalMediaSize, objectFit),
+    naturalWidth: naturalMediaSize.width,
+    naturalHeight: naturalMediaSize.height,
+  }
+  const cropSize =
+    fixedCropSize || getCropAreaSize(mediaSize, containerSize, aspect, rotation, zoomToCover)
+  const zoomRange = getZoomRange(mediaSize, cropSize, {
+    minZoom,
+    maxZoom,
+    rotation,
+    restrictPosition: shouldRestrictPosition,
+    letterbox,
+    zoomToCover,
+    resizable,
+    minCroppedAreaPixels,
+    maxCroppedAreaPixels,
+  })
+  // like the Cropper, only these constraints change a zoom given from outside
+  const zoom =
+    zoomToCover || minCroppedAreaPixels || maxCroppedAreaPixels
+      ? clamp(requestedZoom, zoomRange.minZoom, zoomRange.maxZoom)
+      : requestedZoom
+  const restrictedCrop = shouldRestrictPosition
+    ? restrictCropPosition(crop, mediaSize, cropSize, {
+        zoom,
+        rotation,
+        flip,
+        letterbox,
+        zoomToCover,
+        cropAreaOffset,
+      })
+    : crop
+  const offset = cropAreaOffset ?? { x: 0, y: 0 }
+
+  return {
+    mediaSize,
+    cropSize,
+    crop: restrictedCrop,
+    zoom,
+    minZoom: zoomRange.minZoom,
+    maxZoom: zoomRange.maxZoom,
+    ...getCroppedAreas(
+      { x: restrictedCrop.x - offset.x, y: restrictedCrop.y - offset.y },
+      mediaSize,
+      cropSize,
+      {
+        aspect: fixedCropSize ? fixedCropSize.width / fixedCropSize.height : aspect,
+        zoom,
+        rotation,
+        flip,
+        restrictPosition: shouldRestrictPosition,
+        letterbox,
+      },
+    ),
+  }
+}
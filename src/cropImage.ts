@@ -0,0 +1,241 @@
+import { Area, CropShape, ExifOrientation, Flip, Size } from './types'
+import { getRadianAngle, rotateSize } from './helpers'
+import { getCropShapeMask } from './cropShape'
+import { getOrientationTransform, getOrientedSize } from './exif'
+
+export type CropImageSource =
+  | string
+  | Blob
+  | HTMLImageElement
+  | HTMLVideoElement
+  | HTMLCanvasElement
+  | ImageBitmap
+
+// the sources that can be drawn on a canvas as is
+export type DrawableSource = Exclude<CropImageSource, string | Blob>
+
+export type CroppedImageOutput = {
+  blob: Blob
+  dataUrl: string
+  imageBitmap: ImageBitmap
+}
+
+export type CroppedImageOutputType = keyof CroppedImageOutput
+
+export type GetCroppedImageOptions<T extends CroppedImageOutputType = 'blob'> = {
+  rotation?: number
+  flip?: Flip
+  // EXIF orientation of a source holding the stored pixels, e.g. an ImageBitmap decoded without it
+  orientation?: ExifOrientation
+  cropShape?: CropShape
+  // size of the crop area the shape is drawn on (see onCropSizeChange), defaults to the output size
+  cropSize?: Size
+  // fills the padding of a letterboxed area, with a color or a blurred copy of the media
+  background?: string | { blur: number }
+  outputType?: T
+  mimeType?: string
+  quality?: number
+}
+
+/**
+ * Load an image from an url so it can be drawn on a canvas.
+ */
+export function createImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.addEventListener('load', () => resolve(image))
+    image.addEventListener('error', () => reject(new Error(`Unable to load image ${url}`)))
+    // needed to avoid cross-origin issues when drawing an image from another domain
+    image.setAttribute('crossOrigin', 'anonymous')
+    image.src = url
+  })
+}
+
+/**
+ * Return the natural (unscaled) size of a drawable source.
+ */
+export function getSourceSize(source: DrawableSource): Size {
+  if (typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth, height: source.naturalHeight }
+  }
+  if (typeof HTMLVideoElement !== 'undefined' && source instanceof HTMLVideoElement) {
+    return { width: source.videoWidth, height: source.videoHeight }
+  }
+  return { width: source.width, height: source.height }
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not supported')
+  }
+  return { canvas, ctx }
+}
+
+/**
+ * Draw the source rotated the same way the Cropper displays it,
+ * on a canvas the size of the rotated bounding box.
+ * The croppedAreaPixels reported by the Cropper are relative to this canvas.
+ * An orientation is applied to the source before the rotation.
+ */
+export function drawRotatedSource(
+  source: DrawableSource,
+  rotation = 0,
+  orientation: ExifOrientation = 1,
+): HTMLCanvasElement {
+  const { width, height } = getSourceSize(source)
+  const orientedSize = getOrientedSize({ width, height }, orientation)
+  const bBox = rotateSize(orientedSize.width, orientedSize.height, rotation)
+  const { canvas, ctx } = createCanvas(Math.round(bBox.width), Math.round(bBox.height))
+  const orientationTransform = getOrientationTransform(orientation)
+
+  // move the origin to the center of the bounding box, then rotate around it
+  ctx.translate(canvas.width / 2, canvas.height / 2)
+  ctx.rotate(getRadianAngle(rotation))
+  ctx.scale(
+    orientationTransform.flip.horizontal ? -1 : 1,
+    orientationTransform.flip.vertical ? -1 : 1,
+  )
+  ctx.rotate(getRadianAngle(orientationTransform.rotation))
+  ctx.translate(-width / 2, -height / 2)
+  ctx.drawImage(source, 0, 0)
+
+  return canvas
+}
+
+/**
+ * Encode a drawn source as a png Blob, so it can be displayed with an object url.
+ */
+export async function getSourceBlob(source: HTMLCanvasElement | ImageBitmap): Promise<Blob> {
+  const canvas =
+    typeof HTMLCanvasElement !== 'undefined' && source instanceof HTMLCanvasElement
+      ? source
+      : drawRotatedSource(source)
+  return canvasToBlob(canvas)
+}
+
+function drawBlurredCover(ctx: CanvasRenderingContext2D, image: HTMLCanvasElement, blur: number) {
+  const { width, height } = ctx.canvas
+  const scale = Math.max(width / image.width, height / image.height)
+  ctx.filter = `blur(${blur}px)`
+  ctx.drawImage(
+    image,
+    (width - image.width * scale) / 2,
+    (height - image.height * scale) / 2,
+    image.width * scale,
+    image.height * scale,
+  )
+  ctx.filter = 'none'
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, mimeType?: string, quality?: number) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Unable to encode the cropped image'))),
+      mimeType,
+      quality,
+    )
+  })
+}
+
+/**
+ * Extract the cropped area of a media, honoring rotation and flip.
+ * croppedAreaPixels is expected to be the value given by onCropComplete.
+ * When a cropShape is given, the output is transparent outside of it (use a mimeType supporting it).
+ * A croppedAreaPixels going beyond the media (see the letterbox prop) is padded with the background.
+ */
+export async function getCroppedImage<T extends CroppedImageOutputType = 'blob'>(
+  source: CropImageSource,
+  croppedAreaPixels: Area,
+  {
+    rotation = 0,
+    flip = { horizontal: false, vertical: false },
+    orientation,
+    cropShape = 'rect',
+    cropSize,
+    background,
+    outputType,
+    mimeType = 'image/png',
+    quality,
+  }: GetCroppedImageOptions<T> = {},
+): Promise<CroppedImageOutput[T]> {
+  const drawable =
+    typeof source === 'string'
+      ? await createImage(source)
+      : source instanceof Blob
+      ? await createImageBitmap(source)
+      : source
+  const rotated = drawRotatedSource(drawable, rotation, orientation)
+
+  const { canvas, ctx } = createCanvas(croppedAreaPixels.width, croppedAreaPixels.height)
+  // croppedAreaPixels is expressed on the unflipped media, the flip is applied to the output
+  ctx.translate(flip.horizontal ? canvas.width : 0, flip.vertical ? canvas.height : 0)
+  ctx.scale(flip.horizontal ? -1 : 1, flip.vertical ? -1 : 1)
+  if (typeof background === 'string') {
+    ctx.fillStyle = background
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+  } else if (background) {
+    drawBlurredCover(ctx, rotated, background.blur)
+  }
+  // the area can start before or end after the media, drawing it whole leaves the padding untouched
+  ctx.drawImage(rotated, -croppedAreaPixels.x, -croppedAreaPixels.y)
+
+  if (cropShape !== 'rect') {
+    // the output is already flipped like the media on screen, the mask is stretched over it as is
+    const { path, viewBox } = getCropShapeMask(cropShape, cropSize || canvas)
+    ctx.setTransform(canvas.width / viewBox.width, 0, 0, canvas.height / viewBox.height, 0, 0)
+    ctx.globalCompositeOperation = 'destination-in'
+    ctx.fill(new Path2D(path))
+  }
+
+  switch (outputType ?? 'blob') {
+    case 'dataUrl':
+      return canvas.toDataURL(mimeType, quality) as CroppedImageOutput[T]
+    case 'imageBitmap':
+      return (await createImageBitmap(canvas)) as CroppedImageOutput[T]
+    default:
+    case 'blob':
+      return (await canvasToBlob(canvas, mimeType, quality)) as CroppedImageOutput[T]
+  }
+}
+
+export type CaptureVideoFrameOptions<T extends CroppedImageOutputType = 'blob'> =
+  GetCroppedImageOptions<T> & {
+    // time of the frame in seconds, the current frame by default
+    time?: number
+  }
+
+function seekVideo(video: HTMLVideoElement, time: number) {
+  return new Promise<void>((resolve, reject) => {
+    const onSeeked = () => {
+      video.removeEventListener('error', onError)
+      resolve()
+    }
+    const onError = () => {
+      video.removeEventListener('seeked', onSeeked)
+      reject(new Error(`Unable to seek the video to ${time}s`))
+    }
+    video.addEventListener('seeked', onSeeked, { once: true })
+    video.addEventListener('error', onError, { once: true })
+    video.currentTime = time
+  })
+}
+
+/**
+ * Capture the frame of a video inside croppedAreaPixels as a still image.
+ * The video is paused on the frame when a time is given.
+ */
+export async function captureVideoFrame<T extends CroppedImageOutputType = 'blob'>(
+  video: HTMLVideoElement,
+  croppedAreaPixels: Area,
+  { time, ...options }: CaptureVideoFrameOptions<T> = {},
+): Promise<CroppedImageOutput[T]> {
+  if (time !== undefined && video.currentTime !== time) {
+    video.pause()
+    await seekVideo(video, time)
+  }
+  return getCroppedImage(video, croppedAreaPixels, options)
+}
@@ -0,0 +1,61 @@
+import { CropShape, CropShapeMask, Size } from './types'
+
+/**
+ * Whether the shape can be drawn with a border-radius on the crop area,
+ * other shapes are drawn with an svg mask.
+ */
+export function isCssCropShape(
+  shape: CropShape,
+): shape is 'rect' | 'round' | 'ellipse' | { type: 'roundedRect'; radius: number } {
+  return typeof shape === 'string' || shape.type === 'roundedRect'
+}
+
+function getRoundedRectPath({ width, height }: Size, radius: number) {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2))
+  return [
+    `M${r} 0`,
+    `H${width - r}`,
+    `A${r} ${r} 0 0 1 ${width} ${r}`,
+    `V${height - r}`,
+    `A${r} ${r} 0 0 1 ${width - r} ${height}`,
+    `H${r}`,
+    `A${r} ${r} 0 0 1 0 ${height - r}`,
+    `V${r}`,
+    `A${r} ${r} 0 0 1 ${r} 0`,
+    'Z',
+  ].join(' ')
+}
+
+function getEllipsePath({ width, height }: Size) {
+  const rx = width / 2
+  const ry = height / 2
+  return [`M0 ${ry}`, `A${rx} ${ry} 0 1 0 ${width} ${ry}`, `A${rx} ${ry} 0 1 0 0 ${ry}`, 'Z'].join(
+    ' ',
+  )
+}
+
+/**
+ * Describe the crop shape as an svg path, for a crop area of the given size.
+ * The path is expressed in the coordinates of viewBox and should be stretched to the crop area,
+ * it can be used to mask the cropped image (see the cropShape option of getCroppedImage).
+ */
+export function getCropShapeMask(shape: CropShape, size: Size): CropShapeMask {
+  if (typeof shape === 'string') {
+    return {
+      path: shape === 'rect' ? getRoundedRectPath(size, 0) : getEllipsePath(size),
+      viewBox: size,
+    }
+  }
+
+  switch (shape.type) {
+    case 'roundedRect':
+      return { path: getRoundedRectPath(size, shape.radius), viewBox: size }
+    case 'polygon':
+      return {
+        path: shape.points.map(({ x, y }, i) => `${i ? 'L' : 'M'}${x} ${y}`).join(' ') + ' Z',
+        viewBox: { width: 100, height: 100 },
+      }
+    case 'path':
+      return { path: shape.path, viewBox: shape.viewBox || { width: 100, height: 100 } }
+  }
+}
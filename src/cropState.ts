@@ -0,0 +1,254 @@
+import { Area, Flip } from './types'
+
+export const CROP_STATE_VERSION = 1
+
+export type CropStateUnit = 'percent' | 'pixel'
+
+export type CropState = {
+  version: typeof CROP_STATE_VERSION
+  // percentages of the rotated media
+  croppedArea: Area
+  // pixels of the rotated media
+  croppedAreaPixels: Area
+  rotation: number
+  flip: Flip
+  aspect?: number
+  zoom?: number
+}
+
+export type CropStateFormat = 'json' | 'url'
+
+export type CropStateProps = {
+  initialCroppedAreaPercentages?: Area
+  initialCroppedAreaPixels?: Area
+  rotation: number
+  flip: Flip
+  aspect?: number
+}
+
+/**
+ * Error thrown when a serialized crop state is malformed.
+ */
+export class CropStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CropStateError'
+  }
+}
+
+/**
+ * Create a crop state from the areas given by onCropComplete.
+ */
+export function createCropState(
+  croppedArea: Area,
+  croppedAreaPixels: Area,
+  {
+    rotation = 0,
+    flip = { horizontal: false, vertical: false },
+    aspect,
+    zoom,
+  }: Partial<Pick<CropState, 'rotation' | 'flip' | 'aspect' | 'zoom'>> = {},
+): CropState {
+  return validateCropState({
+    version: CROP_STATE_VERSION,
+    croppedArea,
+    croppedAreaPixels,
+    rotation,
+    flip,
+    aspect,
+    zoom,
+  })
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return isFiniteNumber(value) && value > 0
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+function validateArea(area: unknown, name: string): Area {
+  if (
+    !isObject(area) ||
+    !isFiniteNumber(area.x) ||
+    !isFiniteNumber(area.y) ||
+    !isPositiveNumber(area.width) ||
+    !isPositiveNumber(area.height)
+  ) {
+    throw new CropStateError(
+      `The crop state ${name} needs finite x and y, and positive width and height`,
+    )
+  }
+  return { x: area.x, y: area.y, width: area.width, height: area.height }
+}
+
+/**
+ * Check that an unknown value is a crop state, and return it without unknown keys.
+ */
+export function validateCropState(value: unknown): CropState {
+  if (!isObject(value)) {
+    throw new CropStateError('A crop state must be an object')
+  }
+  const { version, rotation, flip, aspect, zoom } = value
+  if (version !== CROP_STATE_VERSION) {
+    throw new CropStateError(`Unsupported crop state version: ${String(version)}`)
+  }
+  const croppedArea = validateArea(value.croppedArea, 'croppedArea')
+  const croppedAreaPixels = validateArea(value.croppedAreaPixels, 'croppedAreaPixels')
+  if (!isFiniteNumber(rotation)) {
+    throw new CropStateError('The crop state rotation must be a finite number')
+  }
+  if (
+    !isObject(flip) ||
+    typeof flip.horizontal !== 'boolean' ||
+    typeof flip.vertical !== 'boolean'
+  ) {
+    throw new CropStateError('The crop state flip needs boolean horizontal and vertical values')
+  }
+  if (aspect !== undefined && !isPositiveNumber(aspect)) {
+    throw new CropStateError('The crop state aspect must be a positive number')
+  }
+  if (zoom !== undefined && !isPositiveNumber(zoom)) {
+    throw new CropStateError('The crop state zoom must be a positive number')
+  }
+
+  return {
+    version,
+    croppedArea,
+    croppedAreaPixels,
+    rotation,
+    flip: { horizontal: flip.horizontal, vertical: flip.vertical },
+    ...(aspect !== undefined && { aspect }),
+    ...(zoom !== undefined && { zoom }),
+  }
+}
+
+// up to 4 decimals keeps the url short while staying below a pixel on very large media
+function formatUrlNumber(value: number) {
+  return String(Math.round(value * 10000) / 10000)
+}
+
+function formatUrlArea({ x, y, width, height }: Area) {
+  return [x, y, width, height].map(formatUrlNumber).join('~')
+}
+
+function parseUrlNumber(value: string | undefined, name: string) {
+  const number = value === undefined || value === '' ? NaN : Number(value)
+  if (!Number.isFinite(number)) {
+    throw new CropStateError(`Invalid ${name} in crop state url: ${String(value)}`)
+  }
+  return number
+}
+
+function parseUrlArea(value: string | undefined, name: string) {
+  const [x, y, width, height, ...rest] = (value ?? '').split('~')
+  if (rest.length) {
+    throw new CropStateError(`Invalid ${name} in crop state url: ${value}`)
+  }
+  return {
+    x: parseUrlNumber(x, `${name} x`),
+    y: parseUrlNumber(y, `${name} y`),
+    width: parseUrlNumber(width, `${name} width`),
+    height: parseUrlNumber(height, `${name} height`),
+  }
+}
+
+/**
+ * Encode a crop state as a compact string that does not need escaping in urls,
+ * e.g. `1_10~5~50~40_200~50~1000~400_r90_fh_a1.3333333333333333_z2`.
+ */
+function toUrl(state: CropState) {
+  const flip = `${state.flip.horizontal ? 'h' : ''}${state.flip.vertical ? 'v' : ''}`
+  return [
+    state.version,
+    formatUrlArea(state.croppedArea),
+    formatUrlArea(state.croppedAreaPixels),
+    state.rotation && `r${formatUrlNumber(state.rotation)}`,
+    flip && `f${flip}`,
+    // the aspect is kept exact, as it gives the size of the crop area
+    state.aspect !== undefined && `a${state.aspect}`,
+    state.zoom !== undefined && `z${formatUrlNumber(state.zoom)}`,
+  ]
+    .filter(Boolean)
+    .join('_')
+}
+
+function fromUrl(value: string): CropState {
+  const [version, croppedArea, croppedAreaPixels, ...options] = value.split('_')
+  const state: Record<string, unknown> = {
+    version: parseUrlNumber(version, 'version'),
+    croppedArea: parseUrlArea(croppedArea, 'croppedArea'),
+    croppedAreaPixels: parseUrlArea(croppedAreaPixels, 'croppedAreaPixels'),
+    rotation: 0,
+    flip: { horizontal: false, vertical: false },
+  }
+  options.forEach(option => {
+    const key = option[0]
+    const optionValue = option.slice(1)
+    switch (key) {
+      case 'r':
+        state.rotation = parseUrlNumber(optionValue, 'rotation')
+        break
+      case 'f':
+        if (!/^h?v?$/.test(optionValue)) {
+          throw new CropStateError(`Invalid flip in crop state url: ${optionValue}`)
+        }
+        state.flip = { horizontal: optionValue.includes('h'), vertical: optionValue.includes('v') }
+        break
+      case 'a':
+        state.aspect = parseUrlNumber(optionValue, 'aspect')
+        break
+      case 'z':
+        state.zoom = parseUrlNumber(optionValue, 'zoom')
+        break
+      default:
+        throw new CropStateError(`Unknown option in crop state url: ${option}`)
+    }
+  })
+  return validateCropState(state)
+}
+
+/**
+ * Serialize a crop state as JSON, or as a compact string to use in urls.
+ */
+export function serializeCropState(state: CropState, format: CropStateFormat = 'json'): string {
+  const validState = validateCropState(state)
+  return format === 'url' ? toUrl(validState) : JSON.stringify(validState)
+}
+
+/**
+ * Parse a crop state serialized with serializeCropState.
+ * A CropStateError is thrown when the input is malformed.
+ */
+export function parseCropState(input: string, format: CropStateFormat = 'json'): CropState {
+  if (format === 'url') {
+    return fromUrl(input)
+  }
+  let value: unknown
+  try {
+    value = JSON.parse(input)
+  } catch {
+    throw new CropStateError('The crop state is not valid JSON')
+  }
+  return validateCropState(value)
+}
+
+/**
+ * Get the Cropper props restoring a crop state. The zoom follows from the initial cropped area,
+ * in pixels by default, or in percentages for a media that may be served at another size.
+ */
+export function getCropStateProps(state: CropState, unit: CropStateUnit = 'pixel'): CropStateProps {
+  return {
+    ...(unit === 'percent'
+      ? { initialCroppedAreaPercentages: state.croppedArea }
+      : { initialCroppedAreaPixels: state.croppedAreaPixels }),
+    rotation: state.rotation,
+    flip: state.flip,
+    ...(state.aspect !== undefined && { aspect: state.aspect }),
+  }
+}
@@ -0,0 +1,110 @@
+import { Area, ExifOrientation, Flip, Size } from './types'
+
+const JPEG_SOI = 0xffd8
+const JPEG_SOS = 0xffda
+const JPEG_APP1 = 0xffe1
+const EXIF_HEADER = 0x45786966 // "Exif"
+const TIFF_LITTLE_ENDIAN = 0x4949
+const ORIENTATION_TAG = 0x0112
+// the EXIF segment is at the start of the file, its size is limited to 64KB
+const EXIF_MAX_OFFSET = 65536 + 4
+
+/**
+ * Read the EXIF orientation of a JPEG file, 1 (no transformation) when it has none.
+ */
+export function readExifOrientation(buffer: ArrayBuffer): ExifOrientation {
+  const view = new DataView(buffer)
+  try {
+    if (view.getUint16(0) !== JPEG_SOI) return 1
+
+    let offset = 2
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset)
+      if ((marker & 0xff00) !== 0xff00 || marker === JPEG_SOS) return 1
+
+      if (marker === JPEG_APP1 && view.getUint32(offset + 4) === EXIF_HEADER) {
+        const tiffOffset = offset + 10
+        const littleEndian = view.getUint16(tiffOffset) === TIFF_LITTLE_ENDIAN
+        const ifdOffset = tiffOffset + view.getUint32(tiffOffset + 4, littleEndian)
+        const entries = view.getUint16(ifdOffset, littleEndian)
+        for (let i = 0; i < entries; i++) {
+          const entryOffset = ifdOffset + 2 + i * 12
+          if (view.getUint16(entryOffset, littleEndian) === ORIENTATION_TAG) {
+            const orientation = view.getUint16(entryOffset + 8, littleEndian)
+            return orientation >= 1 && orientation <= 8 ? (orientation as ExifOrientation) : 1
+          }
+        }
+        return 1
+      }
+      offset += 2 + view.getUint16(offset + 2)
+    }
+  } catch (e) {
+    // a truncated file makes DataView throw a RangeError
+    if (!(e instanceof RangeError)) throw e
+  }
+  return 1
+}
+
+/**
+ * Read the EXIF orientation of a JPEG Blob (e.g. a File from an input) or ArrayBuffer.
+ */
+export async function getExifOrientation(source: Blob | ArrayBuffer): Promise<ExifOrientation> {
+  const buffer =
+    source instanceof Blob ? await source.slice(0, EXIF_MAX_OFFSET).arrayBuffer() : source
+  return readExifOrientation(buffer)
+}
+
+const ORIENTATION_TRANSFORMS: Record<ExifOrientation, { rotation: number; flip: Flip }> = {
+  1: { rotation: 0, flip: { horizontal: false, vertical: false } },
+  2: { rotation: 0, flip: { horizontal: true, vertical: false } },
+  3: { rotation: 180, flip: { horizontal: false, vertical: false } },
+  4: { rotation: 0, flip: { horizontal: false, vertical: true } },
+  5: { rotation: 90, flip: { horizontal: true, vertical: false } },
+  6: { rotation: 90, flip: { horizontal: false, vertical: false } },
+  7: { rotation: 270, flip: { horizontal: true, vertical: false } },
+  8: { rotation: 270, flip: { horizontal: false, vertical: false } },
+}
+
+/**
+ * Describe an orientation as a clockwise rotation followed by a flip, like the Cropper props.
+ */
+export function getOrientationTransform(orientation: ExifOrientation): {
+  rotation: number
+  flip: Flip
+} {
+  return ORIENTATION_TRANSFORMS[orientation]
+}
+
+/**
+ * Compute the size of an image once oriented. It is its own inverse.
+ */
+export function getOrientedSize({ width, height }: Size, orientation: ExifOrientation = 1): Size {
+  return orientation >= 5 ? { width: height, height: width } : { width, height }
+}
+
+/**
+ * Map an area of the oriented image, like the croppedAreaPixels given to onCropComplete
+ * without rotation, to the pixels stored in the file.
+ */
+export function getSourceArea(area: Area, orientedSize: Size, orientation: ExifOrientation): Area {
+  const { rotation, flip } = getOrientationTransform(orientation)
+  const sourceSize = getOrientedSize(orientedSize, orientation)
+  const x = flip.horizontal ? orientedSize.width - area.width - area.x : area.x
+  const y = flip.vertical ? orientedSize.height - area.height - area.y : area.y
+
+  switch (rotation) {
+    case 90:
+      return { x: y, y: sourceSize.height - x - area.width, width: area.height, height: area.width }
+    case 180:
+      return {
+        x: sourceSize.width - x - area.width,
+        y: sourceSize.height - y - area.height,
+        width: area.width,
+        height: area.height,
+      }
+    case 270:
+      return { x: sourceSize.width - y - area.height, y: x, width: area.height, height: area.width }
+    default:
+      return { x, y, width: area.width, height: area.height }
+  }
+}
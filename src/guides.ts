@@ -0,0 +1,40 @@
+import { CropGuide, CropGuideLine } from './types'
+
+const GOLDEN_RATIO = (1 + Math.sqrt(5)) / 2
+
+function getGridLines(positions: number[]): CropGuideLine[] {
+  return positions.flatMap((position): CropGuideLine[] => [
+    [position, 0, position, 100],
+    [0, position, 100, position],
+  ])
+}
+
+function getDivisions(count: number) {
+  return Array.from({ length: Math.max(0, count - 1) }, (_, i) => ((i + 1) * 100) / count)
+}
+
+/**
+ * Compute the lines drawn over the crop area for a guide.
+ */
+export function getCropGuideLines(guide: CropGuide): CropGuideLine[] {
+  if (typeof guide === 'object') {
+    return [
+      ...getDivisions(guide.columns).map((x): CropGuideLine => [x, 0, x, 100]),
+      ...getDivisions(guide.rows).map((y): CropGuideLine => [0, y, 100, y]),
+    ]
+  }
+
+  switch (guide) {
+    case 'thirds':
+      return getGridLines(getDivisions(3))
+    case 'golden':
+      return getGridLines([100 / GOLDEN_RATIO ** 2, 100 / GOLDEN_RATIO])
+    case 'diagonals':
+      return [
+        [0, 0, 100, 100],
+        [100, 0, 0, 100],
+      ]
+    case 'center':
+      return getGridLines([50])
+  }
+}
@@ -1,4 +1,4 @@
-import { Area, MediaSize, Point, Size } from './types'
+import { Area, CropAreaHandle, Flip, FocalPoint, MediaSize, Padding, Point, Size } from './types'
 
 /**
  * Compute the dimension of the crop area based on media size,
@@ -42,6 +42,7 @@ export function getMediaZoom(mediaSize: MediaSize) {
 
 /**
  * Ensure a new media position stays in the crop area.
+ * With letterbox, a media smaller than the crop area (zoomed out below fit) stays inside of it.
  */
 export function restrictPosition(
   position: Point,
@@ -49,12 +50,13 @@ export function restrictPosition(
   cropSize: Size,
   zoom: number,
   rotation = 0,
+  letterbox = false,
 ): Point {
   const { width, height } = rotateSize(mediaSize.width, mediaSize.height, rotation)
 
   return {
-    x: restrictPositionCoord(position.x, width, cropSize.width, zoom),
-    y: restrictPositionCoord(position.y, height, cropSize.height, zoom),
+    x: restrictPositionCoord(position.x, width, cropSize.width, zoom, letterbox),
+    y: restrictPositionCoord(position.y, height, cropSize.height, zoom, letterbox),
   }
 }
 
@@ -63,12 +65,181 @@ function restrictPositionCoord(
   mediaSize: number,
   cropSize: number,
   zoom: number,
+  letterbox: boolean,
 ): number {
-  const maxPosition = (mediaSize * zoom) / 2 - cropSize / 2
+  const overflow = (mediaSize * zoom) / 2 - cropSize / 2
+  const maxPosition = letterbox ? Math.abs(overflow) : overflow
 
   return clamp(position, -maxPosition, maxPosition)
 }
 
+/**
+ * Half size of the crop area, measured along the axes of the media rotated by rotation.
+ */
+function getRotatedCropExtent(cropSize: Size, rotation: number): Size {
+  const rotRad = getRadianAngle(rotation)
+  const cos = Math.abs(Math.cos(rotRad))
+  const sin = Math.abs(Math.sin(rotRad))
+
+  return {
+    width: (cropSize.width * cos + cropSize.height * sin) / 2,
+    height: (cropSize.width * sin + cropSize.height * cos) / 2,
+  }
+}
+
+/**
+ * Compute the minimum zoom for which the rotated media itself, and not only its bounding box,
+ * can fully cover the crop area.
+ */
+export function getCoverZoom(mediaSize: Size, cropSize: Size, rotation = 0): number {
+  const extent = getRotatedCropExtent(cropSize, rotation)
+
+  return Math.max((2 * extent.width) / mediaSize.width, (2 * extent.height) / mediaSize.height)
+}
+
+/**
+ * Ensure a new media position keeps the crop area inside the rotated media,
+ * which is stricter than restrictPosition that uses the bounding box of the rotated media.
+ */
+export function restrictPositionInRotatedMedia(
+  position: Point,
+  mediaSize: Size,
+  cropSize: Size,
+  zoom: number,
+  rotation = 0,
+  flip?: Flip,
+): Point {
+  // a mirrored media is rotated the other way on screen
+  const isMirrored = !!flip && flip.horizontal !== flip.vertical
+  const rotRad = getRadianAngle(isMirrored ? -rotation : rotation)
+  const cos = Math.cos(rotRad)
+  const sin = Math.sin(rotRad)
+  const extent = getRotatedCropExtent(cropSize, rotation)
+
+  // the allowed positions form a rectangle along the axes of the media
+  const local = {
+    x: position.x * cos + position.y * sin,
+    y: -position.x * sin + position.y * cos,
+  }
+  const maxX = Math.max(0, (mediaSize.width * zoom) / 2 - extent.width)
+  const maxY = Math.max(0, (mediaSize.height * zoom) / 2 - extent.height)
+  const restricted = {
+    x: clamp(local.x, -maxX, maxX),
+    y: clamp(local.y, -maxY, maxY),
+  }
+
+  return {
+    x: restricted.x * cos - restricted.y * sin,
+    y: restricted.x * sin + restricted.y * cos,
+  }
+}
+
+export type RotationConstraints = {
+  step?: number
+  snapAngles?: number[]
+  snapThreshold?: number
+  min?: number
+  max?: number
+  // rotation the change starts from, the result then goes past it in the direction of the change
+  from?: number
+}
+
+/**
+ * Apply the rotation step, snap angles and limits to a rotation.
+ */
+export function constrainRotation(
+  rotation: number,
+  {
+    step,
+    snapAngles,
+    snapThreshold = 5,
+    min = -Infinity,
+    max = Infinity,
+    from,
+  }: RotationConstraints,
+): number {
+  const direction = from === undefined ? 0 : Math.sign(rotation - from)
+  // the margin keeps the float errors of the steps from skipping a step
+  const round =
+    direction > 0
+      ? (value: number) => Math.ceil(value - 1e-9)
+      : direction < 0
+      ? (value: number) => Math.floor(value + 1e-9)
+      : Math.round
+  let constrained = step ? round(rotation / step) * step : rotation
+
+  const angles = snapAngles?.filter(
+    angle => from === undefined || Math.sign(angle - from) === direction,
+  )
+  if (angles?.length) {
+    const closest = angles.reduce((a, b) =>
+      Math.abs(b - constrained) < Math.abs(a - constrained) ? b : a,
+    )
+    if (Math.abs(closest - constrained) <= snapThreshold) {
+      constrained = closest
+    }
+  }
+
+  return clamp(constrained, min, max)
+}
+
+/**
+ * Compute the zoom range for which the cropped area, in media pixels,
+ * stays between minCroppedAreaPixels and maxCroppedAreaPixels.
+ */
+export function getCroppedAreaZoomRange(
+  mediaSize: MediaSize,
+  cropSize: Size,
+  minCroppedAreaPixels?: Size,
+  maxCroppedAreaPixels?: Size,
+): { minZoom: number; maxZoom: number } {
+  // number of container pixels per media pixel at zoom 1
+  const mediaZoom = getMediaZoom(mediaSize)
+  const getZoom = (size: Size | undefined, axis: keyof Size) =>
+    size ? cropSize[axis] / (mediaZoom * size[axis]) : undefined
+
+  return {
+    minZoom: Math.max(
+      getZoom(maxCroppedAreaPixels, 'width') ?? 0,
+      getZoom(maxCroppedAreaPixels, 'height') ?? 0,
+    ),
+    maxZoom: Math.min(
+      getZoom(minCroppedAreaPixels, 'width') ?? Infinity,
+      getZoom(minCroppedAreaPixels, 'height') ?? Infinity,
+    ),
+  }
+}
+
+/**
+ * Compute an area of another aspect, with the same center and surface as a cropped area.
+ * It is shrunk when needed to stay on the media, whose size is deduced from the two areas.
+ */
+export function getCenteredAreaForAspect(
+  croppedArea: Area,
+  croppedAreaPixels: Area,
+  aspect: number,
+): Area {
+  const mediaBBoxSize = {
+    width: (croppedAreaPixels.width * 100) / croppedArea.width,
+    height: (croppedAreaPixels.height * 100) / croppedArea.height,
+  }
+  const center = {
+    x: croppedAreaPixels.x + croppedAreaPixels.width / 2,
+    y: croppedAreaPixels.y + croppedAreaPixels.height / 2,
+  }
+  const width = Math.sqrt(croppedAreaPixels.width * croppedAreaPixels.height * aspect)
+  const maxWidth = 2 * Math.min(center.x, mediaBBoxSize.width - center.x)
+  const maxHeight = 2 * Math.min(center.y, mediaBBoxSize.height - center.y)
+  const scale = Math.min(1, maxWidth / width, maxHeight / (width / aspect))
+
+  return {
+    x: center.x - (width * scale) / 2,
+    y: center.y - (width * scale) / aspect / 2,
+    width: width * scale,
+    height: (width * scale) / aspect,
+  }
+}
+
 export function getDistanceBetweenPoints(pointA: Point, pointB: Point) {
   return Math.sqrt(Math.pow(pointA.y - pointB.y, 2) + Math.pow(pointA.x - pointB.x, 2))
 }
@@ -77,9 +248,33 @@ export function getRotationBetweenPoints(pointA: Point, pointB: Point) {
   return (Math.atan2(pointB.y - pointA.y, pointB.x - pointA.x) * 180) / Math.PI
 }
 
+/**
+ * Compute the empty space on each side of a cropped area going beyond the media,
+ * as it appears in the output: left and right are swapped when the media is flipped horizontally.
+ * mediaBBoxSize is the natural size of the rotated media.
+ */
+export function getCroppedAreaPadding(
+  croppedAreaPixels: Area,
+  mediaBBoxSize: Size,
+  flip?: Flip,
+): Padding {
+  const left = Math.max(0, -croppedAreaPixels.x)
+  const top = Math.max(0, -croppedAreaPixels.y)
+  const right = Math.max(0, croppedAreaPixels.x + croppedAreaPixels.width - mediaBBoxSize.width)
+  const bottom = Math.max(0, croppedAreaPixels.y + croppedAreaPixels.height - mediaBBoxSize.height)
+
+  return {
+    top: flip?.vertical ? bottom : top,
+    right: flip?.horizontal ? left : right,
+    bottom: flip?.vertical ? top : bottom,
+    left: flip?.horizontal ? right : left,
+  }
+}
+
 /**
  * Compute the output cropped area of the media in percentages and pixels.
  * x/y are the top-left coordinates on the src media
+ * When the media is flipped, the area is expressed on the rotated media before the flip.
  */
 export function computeCroppedArea(
   crop: Point,
@@ -89,6 +284,7 @@ export function computeCroppedArea(
   zoom: number,
   rotation = 0,
   restrictPosition = true,
+  flip?: Flip,
 ): { croppedAreaPercentages: Area; croppedAreaPixels: Area } {
   // if the media is rotated by the user, we cannot limit the position anymore
   // as it might need to be negative.
@@ -160,7 +356,30 @@ export function computeCroppedArea(
     ),
   }
 
-  return { croppedAreaPercentages, croppedAreaPixels }
+  return {
+    croppedAreaPercentages: flipArea(croppedAreaPercentages, { width: 100, height: 100 }, flip),
+    croppedAreaPixels: flipArea(croppedAreaPixels, mediaNaturalBBoxSize, flip, true),
+  }
+}
+
+/**
+ * Mirror an area inside its bounding box.
+ * This converts an area between the displayed (flipped) media and the unflipped media.
+ */
+export function flipArea(area: Area, bBoxSize: Size, flip?: Flip, round = false): Area {
+  if (!flip || (!flip.horizontal && !flip.vertical)) {
+    return area
+  }
+  const roundFn = round ? Math.round : noRound
+  return {
+    ...area,
+    x: flip.horizontal ? roundFn(bBoxSize.width - area.width - area.x) : area.x,
+    y: flip.vertical ? roundFn(bBoxSize.height - area.height - area.y) : area.y,
+  }
+}
+
+function noRound(value: number) {
+  return value
 }
 
 /**
@@ -178,13 +397,19 @@ function noOp(_max: number, value: number) {
  * Compute crop and zoom from the croppedAreaPercentages.
  */
 export function getInitialCropFromCroppedAreaPercentages(
-  croppedAreaPercentages: Area,
+  initialCroppedAreaPercentages: Area,
   mediaSize: MediaSize,
   rotation: number,
   cropSize: Size,
   minZoom: number,
   maxZoom: number,
+  flip?: Flip,
 ) {
+  const croppedAreaPercentages = flipArea(
+    initialCroppedAreaPercentages,
+    { width: 100, height: 100 },
+    flip,
+  )
   const mediaBBoxSize = rotateSize(mediaSize.width, mediaSize.height, rotation)
 
   // This is the inverse process of computeCroppedArea
@@ -227,14 +452,17 @@ function getZoomFromCroppedAreaPixels(
  * Compute crop and zoom from the croppedAreaPixels
  */
 export function getInitialCropFromCroppedAreaPixels(
-  croppedAreaPixels: Area,
+  initialCroppedAreaPixels: Area,
   mediaSize: MediaSize,
   rotation = 0,
   cropSize: Size,
   minZoom: number,
   maxZoom: number,
+  flip?: Flip,
 ): { crop: Point; zoom: number } {
   const mediaNaturalBBoxSize = rotateSize(mediaSize.naturalWidth, mediaSize.naturalHeight, rotation)
+  // the area is given on the unflipped media, bring it back to the displayed media
+  const croppedAreaPixels = flipArea(initialCroppedAreaPixels, mediaNaturalBBoxSize, flip)
 
   const zoom = clamp(
     getZoomFromCroppedAreaPixels(croppedAreaPixels, mediaSize, cropSize),
@@ -257,6 +485,171 @@ export function getInitialCropFromCroppedAreaPixels(
   return { crop, zoom }
 }
 
+/**
+ * Compute crop and zoom centering the crop area on a focal point.
+ * The zoom defaults to 1, and the crop is kept on the media when restrictMediaPosition is true.
+ */
+export function getInitialCropFromFocalPoint(
+  focalPoint: FocalPoint,
+  mediaSize: MediaSize,
+  rotation = 0,
+  cropSize: Size,
+  minZoom: number,
+  maxZoom: number,
+  flip?: Flip,
+  restrictMediaPosition = true,
+): { crop: Point; zoom: number } {
+  const zoom = clamp(focalPoint.zoom ?? 1, minZoom, maxZoom)
+  // offset of the point from the center of the displayed media, before zoom, rotation and flip
+  const offset =
+    focalPoint.unit === 'percent'
+      ? {
+          x: (focalPoint.x / 100 - 0.5) * mediaSize.width,
+          y: (focalPoint.y / 100 - 0.5) * mediaSize.height,
+        }
+      : {
+          x: (focalPoint.x - mediaSize.naturalWidth / 2) * getMediaZoom(mediaSize),
+          y: (focalPoint.y - mediaSize.naturalHeight / 2) * getMediaZoom(mediaSize),
+        }
+  const rotRad = getRadianAngle(rotation)
+  // the media is zoomed, rotated then flipped (see mediaTransform in Cropper)
+  const displayedOffset = {
+    x: (Math.cos(rotRad) * offset.x - Math.sin(rotRad) * offset.y) * zoom,
+    y: (Math.sin(rotRad) * offset.x + Math.cos(rotRad) * offset.y) * zoom,
+  }
+  const crop = {
+    x: flip?.horizontal ? displayedOffset.x : -displayedOffset.x,
+    y: flip?.vertical ? displayedOffset.y : -displayedOffset.y,
+  }
+
+  return {
+    crop: restrictMediaPosition
+      ? restrictPosition(crop, mediaSize, cropSize, zoom, rotation)
+      : crop,
+    zoom,
+  }
+}
+
+/**
+ * Compute where a cropped area is displayed for the given media position and zoom.
+ * The returned area is relative to the center of the container.
+ */
+export function getCroppedAreaRect(
+  croppedAreaPercentages: Area,
+  mediaSize: Size,
+  crop: Point,
+  zoom: number,
+  rotation = 0,
+  flip?: Flip,
+): Area {
+  const { width, height } = rotateSize(mediaSize.width, mediaSize.height, rotation)
+  // croppedAreaPercentages is expressed on the unflipped media
+  const area = flipArea(croppedAreaPercentages, { width: 100, height: 100 }, flip)
+
+  return {
+    x: crop.x - (width * zoom) / 2 + (area.x / 100) * width * zoom,
+    y: crop.y - (height * zoom) / 2 + (area.y / 100) * height * zoom,
+    width: (area.width / 100) * width * zoom,
+    height: (area.height / 100) * height * zoom,
+  }
+}
+
+/**
+ * Return the intersection of two areas.
+ */
+export function intersectAreas(a: Area, b: Area): Area {
+  const x = Math.max(a.x, b.x)
+  const y = Math.max(a.y, b.y)
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x),
+    height: Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y),
+  }
+}
+
+/**
+ * Ensure a crop area of the given size stays inside the bounds.
+ * The offset and the bounds are relative to the center of the container.
+ */
+export function restrictCropAreaOffset(offset: Point, cropSize: Size, bounds: Area): Point {
+  return {
+    x: clamp(offset.x, bounds.x + cropSize.width / 2, bounds.x + bounds.width - cropSize.width / 2),
+    y: clamp(
+      offset.y,
+      bounds.y + cropSize.height / 2,
+      bounds.y + bounds.height - cropSize.height / 2,
+    ),
+  }
+}
+
+/**
+ * Compute the new size and offset of the crop area when one of its handles is dragged by delta.
+ * The edges opposite to the handle stay in place. When an aspect is given, it is preserved.
+ * The offset and the bounds are relative to the center of the container.
+ */
+export function resizeCropArea(
+  handle: CropAreaHandle,
+  startCropSize: Size,
+  startOffset: Point,
+  delta: Point,
+  bounds: Area,
+  minSize: Size,
+  maxSize: Size,
+  aspect?: number,
+): { cropSize: Size; offset: Point } {
+  const dirX = handle.includes('e') ? 1 : handle.includes('w') ? -1 : 0
+  const dirY = handle.includes('s') ? 1 : handle.includes('n') ? -1 : 0
+  const left = startOffset.x - startCropSize.width / 2
+  const top = startOffset.y - startCropSize.height / 2
+  const right = left + startCropSize.width
+  const bottom = top + startCropSize.height
+
+  // space available from the fixed edge (or from the center when the axis is not resized)
+  const availableWidth =
+    dirX > 0
+      ? bounds.x + bounds.width - left
+      : dirX < 0
+      ? right - bounds.x
+      : 2 * Math.min(startOffset.x - bounds.x, bounds.x + bounds.width - startOffset.x)
+  const availableHeight =
+    dirY > 0
+      ? bounds.y + bounds.height - top
+      : dirY < 0
+      ? bottom - bounds.y
+      : 2 * Math.min(startOffset.y - bounds.y, bounds.y + bounds.height - startOffset.y)
+
+  let width = startCropSize.width + dirX * delta.x
+  let height = startCropSize.height + dirY * delta.y
+
+  if (aspect) {
+    if (dirX && dirY) {
+      width = Math.max(width, height * aspect)
+    } else if (dirY) {
+      width = height * aspect
+    }
+    const maxWidth = Math.min(
+      maxSize.width,
+      availableWidth,
+      maxSize.height * aspect,
+      availableHeight * aspect,
+    )
+    width = clamp(width, Math.max(minSize.width, minSize.height * aspect), maxWidth)
+    height = width / aspect
+  } else {
+    width = clamp(width, minSize.width, Math.min(maxSize.width, availableWidth))
+    height = clamp(height, minSize.height, Math.min(maxSize.height, availableHeight))
+  }
+
+  const newLeft = dirX > 0 ? left : dirX < 0 ? right - width : startOffset.x - width / 2
+  const newTop = dirY > 0 ? top : dirY < 0 ? bottom - height : startOffset.y - height / 2
+
+  return {
+    cropSize: { width, height },
+    offset: { x: newLeft + width / 2, y: newTop + height / 2 },
+  }
+}
+
 /**
  * Return the point that is the center of point a and b
  */
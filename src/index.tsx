@@ -1,11 +1,135 @@
-import Cropper, { CropperProps } from './Cropper'
+import Cropper, {
+  CropperProps,
+  CropperAnnouncementState,
+  CropperController,
+  CropAreaRenderState,
+  CroppedAreaLimit,
+} from './Cropper'
+import MultiCropper, { MultiCropperProps } from './MultiCropper'
+import CropPreview, { CropPreviewProps } from './CropPreview'
 import {
   getInitialCropFromCroppedAreaPixels,
   getInitialCropFromCroppedAreaPercentages,
+  getInitialCropFromFocalPoint,
+  getCroppedAreaPadding,
+  getCenteredAreaForAspect,
 } from './helpers'
+import { getCroppedImage, createImage, captureVideoFrame } from './cropImage'
+import { getCropShapeMask } from './cropShape'
+import { getAutoCrop, getAutoCropFromImageData } from './autoCrop'
+import {
+  getExifOrientation,
+  getOrientationTransform,
+  getOrientedSize,
+  getSourceArea,
+  readExifOrientation,
+} from './exif'
+import {
+  computeCrop,
+  getCropAreaSize,
+  getCroppedAreas,
+  getInitialCrop,
+  getRenderedMediaSize,
+  getZoomedCrop,
+  getZoomRange,
+  restrictCropPosition,
+} from './cropEngine'
+import { createCropperState } from './createCropperState'
+import {
+  CROP_STATE_VERSION,
+  CropStateError,
+  createCropState,
+  getCropStateProps,
+  parseCropState,
+  serializeCropState,
+  validateCropState,
+} from './cropState'
+import { createCropperHistory } from './createCropperHistory'
+import { DEFAULT_ASPECT_PRESETS, createAspectPresetRegistry } from './aspectPresets'
+import { createAspectSwitcher } from './createAspectSwitcher'
 
 export * from './types'
 
-export { getInitialCropFromCroppedAreaPixels, getInitialCropFromCroppedAreaPercentages }
-export type { CropperProps }
+export {
+  getInitialCropFromCroppedAreaPixels,
+  getInitialCropFromCroppedAreaPercentages,
+  getInitialCropFromFocalPoint,
+  getCroppedAreaPadding,
+  getCenteredAreaForAspect,
+  getCroppedImage,
+  createImage,
+  captureVideoFrame,
+  getCropShapeMask,
+  getAutoCrop,
+  getAutoCropFromImageData,
+  getExifOrientation,
+  getOrientationTransform,
+  getOrientedSize,
+  getSourceArea,
+  readExifOrientation,
+  computeCrop,
+  getCropAreaSize,
+  getCroppedAreas,
+  getInitialCrop,
+  getRenderedMediaSize,
+  getZoomedCrop,
+  getZoomRange,
+  restrictCropPosition,
+  MultiCropper,
+  CropPreview,
+  createCropperState,
+  createCropperHistory,
+  DEFAULT_ASPECT_PRESETS,
+  createAspectPresetRegistry,
+  createAspectSwitcher,
+  CROP_STATE_VERSION,
+  CropStateError,
+  createCropState,
+  getCropStateProps,
+  parseCropState,
+  serializeCropState,
+  validateCropState,
+}
+export type {
+  CropperProps,
+  CropperAnnouncementState,
+  CropperController,
+  CropAreaRenderState,
+  CroppedAreaLimit,
+  MultiCropperProps,
+  CropPreviewProps,
+}
+export type {
+  CaptureVideoFrameOptions,
+  CropImageSource,
+  CroppedImageOutput,
+  CroppedImageOutputType,
+  DrawableSource,
+  GetCroppedImageOptions,
+} from './cropImage'
+export type { AutoCropOptions, AutoCropWeights } from './autoCrop'
+export type {
+  CropEngineInput,
+  CropEngineOutput,
+  CroppedAreaOptions,
+  CroppedAreas,
+  InitialCropOptions,
+  RestrictCropOptions,
+  ZoomRange,
+  ZoomRangeOptions,
+} from './cropEngine'
+export type { CropState, CropStateFormat, CropStateProps, CropStateUnit } from './cropState'
+export type { CropperState, CropperStateOptions, CropperStateProps } from './createCropperState'
+export type {
+  CropperHistory,
+  CropperHistoryOptions,
+  CropperHistoryProps,
+  CropperSnapshot,
+} from './createCropperHistory'
+export type { AspectPreset, AspectPresetRegistry } from './aspectPresets'
+export type {
+  AspectSwitcher,
+  AspectSwitcherOptions,
+  AspectSwitcherProps,
+} from './createAspectSwitcher'
 export default Cropper
@@ -3,11 +3,16 @@ export type Size = {
   height: number
 }
 
+// EXIF orientation of a photo, 1 when it is stored as displayed
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8
+
 export type MediaSize = {
   width: number
   height: number
   naturalWidth: number
   naturalHeight: number
+  // orientation applied to the displayed media, the natural size is the oriented one
+  orientation?: ExifOrientation
 }
 
 export type Point = {
@@ -22,7 +27,92 @@ export type Area = {
   y: number
 }
 
+export type ObjectFit = 'contain' | 'horizontal-cover' | 'vertical-cover' | 'auto-cover'
+
+// an image to crop, a File is a Blob
+export type ImageSource = string | Blob | ImageBitmap | HTMLCanvasElement
+
 export type VideoSrc = {
   src: string
   type?: string
 }
+
+export type Padding = {
+  top: number
+  right: number
+  bottom: number
+  left: number
+}
+
+export type TimeRange = {
+  start: number
+  end: number
+}
+
+// extra information given with the cropped area
+export type CropDetails = {
+  padding: Padding
+  // current time of a video, in seconds
+  currentTime?: number
+  timeRange?: TimeRange
+}
+
+// a point of interest on the unrotated media, in natural pixels or in percentages of its size
+export type FocalPoint = {
+  x: number
+  y: number
+  unit: 'pixel' | 'percent'
+  zoom?: number
+}
+
+export type Flip = {
+  horizontal: boolean
+  vertical: boolean
+}
+
+export type CropAreaHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw'
+
+export type CropRegion = {
+  id: string
+  label?: string
+  aspect: number
+  initialCroppedAreaPixels?: Area
+  initialCroppedAreaPercentages?: Area
+}
+
+export type CroppedRegion = {
+  id: string
+  croppedArea: Area
+  croppedAreaPixels: Area
+}
+
+export type CropShape =
+  | 'rect'
+  | 'round'
+  | 'ellipse'
+  | { type: 'roundedRect'; radius: number }
+  // points are percentages of the crop area
+  | { type: 'polygon'; points: Point[] }
+  // the path is stretched from its viewBox (100x100 by default) to the crop area
+  | { type: 'path'; path: string; viewBox?: Size }
+
+export type CropShapeMask = {
+  path: string
+  viewBox: Size
+}
+
+export type CropGuide =
+  | 'thirds'
+  | 'golden'
+  | 'diagonals'
+  | 'center'
+  | { rows: number; columns: number }
+
+// a line from (x1, y1) to (x2, y2), in percentages of the crop area
+export type CropGuideLine = [x1: number, y1: number, x2: number, y2: number]
+
+// when wheel and touch input move the media, so an embedded cropper can leave them to the page
+export type GesturePolicy = 'always' | 'modifierKey' | 'twoFingers'
+
+// the kind of gesture a policy blocked, to explain how to use it
+export type GestureHint = 'wheel' | 'touch'
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { render } from 'solid-js/web'
+import { CropPreview } from '../src'
+
+describe('CropPreview', () => {
+  it('positions the media so the cropped area fills the preview', () => {
+    const root = document.createElement('div')
+    const dispose = render(
+      () => (
+        <CropPreview
+          image="/image.jpeg"
+          croppedArea={{ x: 25, y: 10, width: 50, height: 80 }}
+          rotation={90}
+          flip={{ horizontal: true, vertical: false }}
+          width={120}
+        />
+      ),
+      root,
+    )
+
+    const preview = root.querySelector<HTMLElement>('[data-testid="crop-preview"]')!
+    const image = root.querySelector('img')!
+    expect(image.style.visibility).toBe('hidden')
+    Object.defineProperties(image, {
+      naturalWidth: { value: 200 },
+      naturalHeight: { value: 100 },
+    })
+    image.dispatchEvent(new Event('load'))
+
+    // once rotated, the media is 100x200 and the cropped area is 50x160 of it
+    expect(preview.style.width).toBe('120px')
+    expect(parseFloat(image.style.width)).toBeCloseTo(400)
+    expect(parseFloat(image.style.height)).toBeCloseTo(62.5)
+    expect(parseFloat(image.style.left)).toBeCloseTo(-150)
+    expect(parseFloat(image.style.top)).toBeCloseTo(18.75)
+    expect(image.style.transform).toBe('rotate(90deg)')
+    expect(image.parentElement!.style.transform).toBe('scale(-1, 1)')
+
+    dispose()
+  })
+})
@@ -0,0 +1,874 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createSignal } from 'solid-js'
+import { render } from 'solid-js/web'
+import Cropper, { CropperController } from '../src'
+
+describe('Cropper', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  // jsdom has no layout, the container is 200x200 and shows a 400x200 image
+  const loadImage = (root: Element) => {
+    const container = root.querySelector<HTMLElement>('[data-testid="container"]')!
+    container.getBoundingClientRect = () =>
+      ({ left: 0, top: 0, right: 200, bottom: 200, width: 200, height: 200 } as DOMRect)
+    const image = root.querySelector('img')!
+    Object.defineProperties(image, {
+      naturalWidth: { value: 400 },
+      naturalHeight: { value: 200 },
+    })
+    image.dispatchEvent(new Event('load'))
+    return container
+  }
+
+  it('renders a focusable and labelled container', () => {
+    const root = document.createElement('div')
+    const dispose = render(
+      () => (
+        <Cropper image="/image.jpeg" crop={{ x: 0, y: 0 }} onCropChange={() => {}} aspect={1} />
+      ),
+      root,
+    )
+
+    const container = root.querySelector('[data-testid="container"]')!
+    expect(container.getAttribute('tabindex')).toBe('0')
+    expect(container.getAttribute('role')).toBe('application')
+    expect(container.getAttribute('aria-label')).toBe('Image cropper')
+    const instructions = root.querySelector(`#${container.getAttribute('aria-describedby')}`)
+    expect(instructions?.textContent).toContain('arrow keys')
+    expect(root.querySelector('[aria-live="polite"]')).not.toBeNull()
+
+    dispose()
+  })
+
+  it('gives a controller respecting the zoom limits and the position restriction', () => {
+    const [crop, setCrop] = createSignal({ x: 0, y: 0 })
+    const [zoom, setZoom] = createSignal(1)
+    const [restrictPosition, setRestrictPosition] = createSignal(true)
+    const root = document.createElement('div')
+    let controller: CropperController | undefined
+    const dispose = render(
+      () => (
+        <Cropper
+          image="/image.jpeg"
+          crop={crop()}
+          zoom={zoom()}
+          onCropChange={setCrop}
+          onZoomChange={setZoom}
+          aspect={1}
+          minZoom={1}
+          maxZoom={2}
+          restrictPosition={restrictPosition()}
+          setController={value => (controller = value)}
+        />
+      ),
+      root,
+    )
+
+    // the 200x100 media has a 100x100 crop area, 2 media pixels per displayed pixel
+    loadImage(root)
+    controller!.zoomTo(5)
+    expect(zoom()).toBe(2)
+    controller!.zoomTo(0.5)
+    expect(zoom()).toBe(1)
+
+    controller!.panTo({ x: 500, y: 20 })
+    expect(crop()).toEqual({ x: 50, y: 0 })
+
+    // a 50x50 area would need a zoom of 4, the media stays on the crop area at the zoom of 2
+    controller!.fitArea({ x: 0, y: 0, width: 50, height: 50 })
+    expect(zoom()).toBe(2)
+    expect(crop()).toEqual({ x: 150, y: 50 })
+
+    setRestrictPosition(false)
+    controller!.panTo({ x: 500, y: 20 })
+    expect(crop()).toEqual({ x: 500, y: 20 })
+    dispose()
+  })
+
+  it('renders video controls instead of autoplaying', () => {
+    const root = document.createElement('div')
+    const dispose = render(
+      () => (
+        <Cropper
+          video="/video.mp4"
+          crop={{ x: 0, y: 0 }}
+          onCropChange={() => {}}
+          aspect={1}
+          videoControls
+          onVideoTimeRangeChange={() => {}}
+        />
+      ),
+      root,
+    )
+
+    expect(root.querySelector('video')!.autoplay).toBe(false)
+    const controls = root.querySelector('.reactEasyCrop_VideoControls')!
+    expect(controls.querySelector('[aria-label="Play"]')).not.toBeNull()
+    expect(controls.querySelector('input[type="range"]')).not.toBeNull()
+    expect(controls.querySelectorAll('button')).toHaveLength(3)
+    dispose()
+  })
+
+  it('seeks inside the video time range and only loops while playing', () => {
+    const root = document.createElement('div')
+    document.body.appendChild(root)
+    const dispose = render(
+      () => (
+        <Cropper
+          video="/video.mp4"
+          crop={{ x: 0, y: 0 }}
+          onCropChange={() => {}}
+          aspect={1}
+          videoControls
+          videoTimeRange={{ start: 2, end: 5 }}
+        />
+      ),
+      root,
+    )
+
+    // jsdom does not play media
+    const video = root.querySelector('video')!
+    Object.defineProperties(video, {
+      duration: { value: 10 },
+      currentTime: { value: 0, writable: true },
+      paused: { value: true, writable: true },
+    })
+    video.dispatchEvent(new Event('loadedmetadata'))
+    expect(video.currentTime).toBe(2)
+
+    const seek = root.querySelector<HTMLInputElement>('input[aria-label="Seek"]')!
+    seek.value = '8'
+    seek.dispatchEvent(new Event('input', { bubbles: true }))
+    expect(video.currentTime).toBe(5)
+    video.dispatchEvent(new Event('timeupdate'))
+    expect(video.currentTime).toBe(5)
+
+    seek.value = '1'
+    seek.dispatchEvent(new Event('input', { bubbles: true }))
+    expect(video.currentTime).toBe(2)
+
+    Object.assign(video, { paused: false, currentTime: 5.1 })
+    video.dispatchEvent(new Event('timeupdate'))
+    expect(video.currentTime).toBe(2)
+    dispose()
+    root.remove()
+  })
+
+  it('reports rejected plays, except the ones interrupted by a pause', async () => {
+    const onMediaError = vi.fn()
+    const root = document.createElement('div')
+    document.body.appendChild(root)
+    const dispose = render(
+      () => (
+        <Cropper
+          video="/video.mp4"
+          crop={{ x: 0, y: 0 }}
+          onCropChange={() => {}}
+          aspect={1}
+          videoControls
+          onMediaError={onMediaError}
+        />
+      ),
+      root,
+    )
+
+    const video = root.querySelector('video')!
+    const abortError = new Error('The play() request was interrupted by a call to pause()')
+    abortError.name = 'AbortError'
+    const notAllowedError = new Error('play() failed because the user did not interact')
+    notAllowedError.name = 'NotAllowedError'
+    video.play = vi
+      .fn<[], Promise<void>>()
+      .mockRejectedValueOnce(abortError)
+      .mockRejectedValueOnce(notAllowedError)
+    const play = root.querySelector<HTMLButtonElement>('button[aria-label="Play"]')!
+    play.click()
+    play.click()
+    await new Promise(resolve => setTimeout(resolve))
+
+    expect(onMediaError).toHaveBeenCalledTimes(1)
+    expect(onMediaError).toHaveBeenCalledWith(notAllowedError)
+    dispose()
+    root.remove()
+  })
+
+  it('displays blobs with an object url revoked when unmounted', () => {
+    // jsdom does not implement object urls
+    const revokeObjectURL = vi.fn()
+    vi.stubGlobal(
+      'URL',
+      Object.assign(class extends URL {}, {
+        createObjectURL: () => 'blob:image',
+        revokeObjectURL,
+      }),
+    )
+    const onMediaError = vi.fn()
+    const root = document.createElement('div')
+    const dispose = render(
+      () => (
+        <Cropper
+          image={new Blob(['image'], { type: 'image/jpeg' })}
+          crop={{ x: 0, y: 0 }}
+          onCropChange={() => {}}
+          aspect={1}
+          onMediaError={onMediaError}
+        />
+      ),
+      root,
+    )
+
+    const image = root.querySelector('img')!
+    expect(image.getAttribute('src')).toBe('blob:image')
+    image.dispatchEvent(new Event('error'))
+    expect(onMediaError).toHaveBeenCalledWith(new Error('Unable to load the image'))
+
+    dispose()
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:image')
+  })
+
+  it('reads the EXIF orientation of blobs before handling their load', async () => {
+    vi.stubGlobal(
+      'URL',
+      Object.assign(class extends URL {}, {
+        createObjectURL: () => 'blob:image',
+        revokeObjectURL: () => {},
+      }),
+    )
+    // a JPEG header with an EXIF segment holding the orientation 6 (rotated by 90°)
+    const jpeg = new Uint8Array([
+      0xff, 0xd8, 0xff, 0xe1, 0x00, 0x1e, 0x45, 0x78, 0x69, 0x66, 0, 0, 0x4d, 0x4d, 0, 0x2a, 0, 0,
+      0, 8, 0, 1, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, 6, 0, 0, 0xff, 0xda, 0, 2,
+    ]).buffer
+    // jsdom blobs can not be read as array buffers
+    class JpegBlob extends Blob {
+      slice() {
+        return this
+      }
+      arrayBuffer() {
+        return Promise.resolve(jpeg)
+      }
+    }
+    const onMediaLoaded = vi.fn()
+    const root = document.createElement('div')
+    const dispose = render(
+      () => (
+        <Cropper
+          image={new JpegBlob([])}
+          crop={{ x: 0, y: 0 }}
+          onCropChange={() => {}}
+          aspect={1}
+          onMediaLoaded={onMediaLoaded}
+        />
+      ),
+      root,
+    )
+
+    // the browser displays the image in portrait but reports its stored landscape size
+    const image = root.querySelector('img')!
+    Object.defineProperties(image, {
+      offsetWidth: { value: 100 },
+      offsetHeight: { value: 200 },
+    })
+    loadImage(root)
+    expect(onMediaLoaded).not.toHaveBeenCalled()
+
+    await new Promise(resolve => setTimeout(resolve))
+    expect(onMediaLoaded).toHaveBeenCalledWith({
+      width: 100,
+      height: 200,
+      naturalWidth: 200,
+      naturalHeight: 400,
+      orientation: 6,
+    })
+    expect(image.style.getPropertyValue('image-orientation')).toBe('from-image')
+    dispose()
+  })
+
+  // jsdom has no PointerEvent, a MouseEvent carries the pointer properties
+  const firePointer = (target: Element, type: string, pointerId: number, x = 0, y = 0) => {
+    const event = new MouseEvent(type, { bubbles: true, cancelable: true, clientX: x, clientY: y })
+    Object.assign(event, { pointerId, pointerType: 'touch' })
+    target.dispatchEvent(event)
+    return event
+  }
+
+  it('keeps one interaction while pointers join and leave a pinch', () => {
+    const onInteractionStart = vi.fn()
+    const onInteractionEnd = vi.fn()
+    const root = document.createElement('div')
+    document.body.appendChild(root)
+    const dispose = render(
+      () => (
+        <Cropper
+          image="/image.jpeg"
+          crop={{ x: 0, y: 0 }}
+          onCropChange={() => {}}
+          aspect={1}
+          onInteractionStart={onInteractionStart}
+          onInteractionEnd={onInteractionEnd}
+        />
+      ),
+      root,
+    )
+
+    const container = root.querySelector('[data-testid="container"]')!
+    expect(firePointer(container, 'pointerdown', 1).defaultPrevented).toBe(true)
+    firePointer(container, 'pointerdown', 2, 100, 0)
+    firePointer(container, 'pointerup', 1)
+    expect(onInteractionStart).toHaveBeenCalledTimes(1)
+    expect(onInteractionEnd).not.toHaveBeenCalled()
+
+    firePointer(container, 'pointercancel', 2)
+    expect(onInteractionEnd).toHaveBeenCalledTimes(1)
+    dispose()
+    root.remove()
+  })
+
+  it('lets onPointerRequest and onTouchRequest veto pointers', () => {
+    const onInteractionStart = vi.fn()
+    const root = document.createElement('div')
+    document.body.appendChild(root)
+    const dispose = render(
+      () => (
+        <Cropper
+          image="/image.jpeg"
+          crop={{ x: 0, y: 0 }}
+          onCropChange={() => {}}
+          aspect={1}
+          onInteractionStart={onInteractionStart}
+          onPointerRequest={e => e.pointerId !== 1}
+          onTouchRequest={e => e.touches.length > 1}
+        />
+      ),
+      root,
+    )
+
+    const container = root.querySelector('[data-testid="container"]')!
+    firePointer(container, 'pointerdown', 1)
+    firePointer(container, 'pointerdown', 2)
+    const touchStart = new Event('touchstart', { bubbles: true })
+    Object.assign(touchStart, { touches: [{}] })
+    container.dispatchEvent(touchStart)
+    expect(onInteractionStart).not.toHaveBeenCalled()
+
+    firePointer(container, 'pointerdown', 3)
+    Object.assign(touchStart, { touches: [{}, {}] })
+    container.dispatchEvent(touchStart)
+    expect(onInteractionStart).toHaveBeenCalledTimes(1)
+    dispose()
+    root.remove()
+  })
+
+  it('keeps dragging with an accepted touch when a later one is rejected', async () => {
+    const [crop, setCrop] = createSignal({ x: 0, y: 0 })
+    const root = document.createElement('div')
+    document.body.appendChild(root)
+    const dispose = render(
+      () => (
+        <Cropper
+          image="/image.jpeg"
+          crop={crop()}
+          onCropChange={setCrop}
+          aspect={1}
+          onTouchRequest={e => e.touches.length === 1}
+        />
+      ),
+      root,
+    )
+
+    const container = loadImage(root)
+    // a native drag of the image would cancel the pointers
+    expect(root.querySelector('img')!.getAttribute('draggable')).toBe('false')
+    const touchStart = (touches: number) => {
+      const event = new Event('touchstart', { bubbles: true })
+      Object.assign(event, { touches: Array.from({ length: touches }, () => ({})) })
+      container.dispatchEvent(event)
+    }
+    firePointer(container, 'pointerdown', 1, 100, 100)
+    touchStart(1)
+    firePointer(container, 'pointerdown', 2, 150, 100)
+    touchStart(2)
+
+    firePointer(container, 'pointermove', 1, 120, 100)
+    await new Promise(resolve => requestAnimationFrame(resolve))
+    expect(crop()).toEqual({ x: 20, y: 0 })
+    dispose()
+    root.remove()
+  })
+
+  it('leaves unmodified wheels to the page with the modifierKey policy', () => {
+    const onInteractionStart = vi.fn()
+    const root = document.createElement('div')
+    document.body.appendChild(root)
+    const dispose = render(
+      () => (
+        <Cropper
+          image="/image.jpeg"
+          crop={{ x: 0, y: 0 }}
+          onCropChange={() => {}}
+          aspect={1}
+          gesturePolicy="modifierKey"
+          onInteractionStart={onInteractionStart}
+        />
+      ),
+      root,
+    )
+
+    const container = root.querySelector('[data-testid="container"]')!
+    const scroll = new WheelEvent('wheel', { deltaY: 100, cancelable: true })
+    container.dispatchEvent(scroll)
+    expect(scroll.defaultPrevented).toBe(false)
+    expect(onInteractionStart).not.toHaveBeenCalled()
+    expect(root.querySelector('.reactEasyCrop_GestureHint')?.textContent).toBe(
+      'Use Ctrl + scroll to zoom',
+    )
+
+    // a trackpad pinch
+    const pinch = new WheelEvent('wheel', { deltaY: 2.5, ctrlKey: true, cancelable: true })
+    container.dispatchEvent(pinch)
+    expect(pinch.defaultPrevented).toBe(true)
+    expect(onInteractionStart).toHaveBeenCalledTimes(1)
+    expect(root.querySelector('.reactEasyCrop_GestureHint')).toBeNull()
+    dispose()
+    root.remove()
+  })
+
+  it('only moves the media with two fingers with the twoFingers policy', async () => {
+    const onInteractionStart = vi.fn()
+    const [crop, setCrop] = createSignal({ x: 0, y: 0 })
+    const root = document.createElement('div')
+    document.body.appendChild(root)
+    const dispose = render(
+      () => (
+        <Cropper
+          image="/image.jpeg"
+          crop={crop()}
+          onCropChange={setCrop}
+          aspect={1}
+          gesturePolicy="twoFingers"
+          formatGestureHint={gesture => `blocked ${gesture}`}
+          onInteractionStart={onInteractionStart}
+        />
+      ),
+      root,
+    )
+
+    const container = loadImage(root)
+    expect(container.classList.contains('reactEasyCrop_Container_TwoFingers')).toBe(true)
+    firePointer(container, 'pointerdown', 1)
+    firePointer(container, 'pointermove', 1, 10, 0)
+    expect(onInteractionStart).not.toHaveBeenCalled()
+    expect(root.querySelector('.reactEasyCrop_GestureHint')?.textContent).toBe('blocked touch')
+
+    firePointer(container, 'pointerdown', 2, 100, 0)
+    expect(onInteractionStart).toHaveBeenCalledTimes(1)
+
+    // the page must not pan while two fingers move the media
+    const touchMove = (touches: number) => {
+      const event = new Event('touchmove', { bubbles: true, cancelable: true })
+      Object.assign(event, { touches: Array.from({ length: touches }, () => ({})) })
+      container.dispatchEvent(event)
+      return event
+    }
+    expect(touchMove(2).defaultPrevented).toBe(true)
+    firePointer(container, 'pointermove', 1, 30, 0)
+    firePointer(container, 'pointermove', 2, 120, 0)
+    await new Promise(resolve => requestAnimationFrame(resolve))
+    expect(crop()).toEqual({ x: 20, y: 0 })
+    expect(touchMove(1).defaultPrevented).toBe(false)
+    dispose()
+    root.remove()
+  })
+
+  it('reports keyboard and controller changes as interactions', () => {
+    const onInteractionStart = vi.fn()
+    const onInteractionEnd = vi.fn()
+    const [zoom, setZoom] = createSignal(1)
+    let controller: CropperController | undefined
+    const root = document.createElement('div')
+    document.body.appendChild(root)
+    const dispose = render(
+      () => (
+        <Cropper
+          image="/image.jpeg"
+          crop={{ x: 0, y: 0 }}
+          zoom={zoom()}
+          onCropChange={() => {}}
+          onZoomChange={setZoom}
+          aspect={1}
+          onInteractionStart={onInteractionStart}
+          onInteractionEnd={onInteractionEnd}
+          setController={value => (controller = value)}
+        />
+      ),
+      root,
+    )
+
+    const container = loadImage(root)
+    container.dispatchEvent(new KeyboardEvent('keydown', { key: '+', bubbles: true }))
+    container.dispatchEvent(new KeyboardEvent('keydown', { key: '+', bubbles: true, repeat: true }))
+    expect(zoom()).toBeCloseTo(1.2)
+    expect(onInteractionStart).toHaveBeenCalledTimes(1)
+    expect(onInteractionEnd).not.toHaveBeenCalled()
+    container.dispatchEvent(new KeyboardEvent('keyup', { key: '+', bubbles: true }))
+    expect(onInteractionEnd).toHaveBeenCalledTimes(1)
+
+    controller!.zoomTo(2)
+    expect(zoom()).toBe(2)
+    expect(onInteractionStart).toHaveBeenCalledTimes(2)
+    expect(onInteractionEnd).toHaveBeenCalledTimes(2)
+
+    // the key up is lost when the focus leaves while the key is held
+    container.dispatchEvent(new KeyboardEvent('keydown', { key: '-', bubbles: true }))
+    expect(onInteractionStart).toHaveBeenCalledTimes(3)
+    container.dispatchEvent(new FocusEvent('blur'))
+    expect(onInteractionEnd).toHaveBeenCalledTimes(3)
+    container.dispatchEvent(new FocusEvent('blur'))
+    expect(onInteractionEnd).toHaveBeenCalledTimes(3)
+    dispose()
+    root.remove()
+  })
+
+  it('moves, zooms and rotates with the keyboard and announces the result', () => {
+    const [crop, setCrop] = createSignal({ x: 0, y: 0 })
+    const [zoom, setZoom] = createSignal(1)
+    const [rotation, setRotation] = createSignal(0)
+    const root = document.createElement('div')
+    document.body.appendChild(root)
+    const dispose = render(
+      () => (
+        <Cropper
+          image="/image.jpeg"
+          crop={crop()}
+          zoom={zoom()}
+          rotation={rotation()}
+          onCropChange={setCrop}
+          onZoomChange={setZoom}
+          onRotationChange={setRotation}
+          aspect={1}
+          keyboardRotationStep={5}
+        />
+      ),
+      root,
+    )
+
+    const container = loadImage(root)
+    const press = (key: string, init: KeyboardEventInit = {}) => {
+      const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init })
+      container.dispatchEvent(event)
+      container.dispatchEvent(new KeyboardEvent('keyup', { key, bubbles: true }))
+      return event
+    }
+
+    press('ArrowRight')
+    press('ArrowUp', { shiftKey: true })
+    // the 400x200 media can not move vertically in the 200x200 crop area
+    expect(crop()).toEqual({ x: 1, y: 0 })
+    press('+')
+    press('=')
+    expect(zoom()).toBeCloseTo(1.2)
+    press('-')
+    expect(zoom()).toBeCloseTo(1.1)
+    press(']')
+    press(']')
+    press('[')
+    expect(rotation()).toBe(5)
+    expect(root.querySelector('[aria-live="polite"]')!.textContent).toBe(
+      'Zoom 110%, rotation 5 degrees, position 1, 0',
+    )
+
+    // the browser keeps its page zoom and navigation shortcuts
+    const cropBeforeShortcuts = crop()
+    expect(press('+', { ctrlKey: true }).defaultPrevented).toBe(false)
+    expect(press('-', { metaKey: true }).defaultPrevented).toBe(false)
+    expect(press('ArrowLeft', { altKey: true }).defaultPrevented).toBe(false)
+    expect(zoom()).toBeCloseTo(1.1)
+    expect(crop()).toBe(cropBeforeShortcuts)
+    dispose()
+    root.remove()
+  })
+
+  it('computes the crop area again when the aspect prop changes', () => {
+    const [aspect, setAspect] = createSignal(1)
+    const onCropSizeChange = vi.fn()
+    const root = document.createElement('div')
+    const dispose = render(
+      () => (
+        <Cropper
+          image="/image.jpeg"
+          crop={{ x: 0, y: 0 }}
+          onCropChange={() => {}}
+          aspect={aspect()}
+          onCropSizeChange={onCropSizeChange}
+        />
+      ),
+      root,
+    )
+
+    loadImage(root)
+    expect(onCropSizeChange).toHaveBeenLastCalledWith({ width: 100, height: 100 })
+    setAspect(2)
+    expect(onCropSizeChange).toHaveBeenLastCalledWith({ width: 200, height: 100 })
+    dispose()
+  })
+
+  it('restricts the focal point initial crop like the user changes', () => {
+    const [crop, setCrop] = createSignal({ x: 0, y: 0 })
+    const root = document.createElement('div')
+    let controller: CropperController | undefined
+    const dispose = render(
+      () => (
+        <Cropper
+          image="/image.jpeg"
+          crop={crop()}
+          zoom={0.5}
+          onCropChange={setCrop}
+          aspect={1}
+          minZoom={0.5}
+          letterbox
+          initialFocalPoint={{ x: 0, y: 0, unit: 'percent' }}
+          setController={value => (controller = value)}
+        />
+      ),
+      root,
+    )
+
+    // the 100x50 media stays inside the 100x100 crop area instead of centering its corner
+    loadImage(root)
+    expect(crop()).toEqual({ x: 0, y: 25 })
+    controller!.panTo(crop())
+    expect(crop()).toEqual({ x: 0, y: 25 })
+    dispose()
+  })
+
+  it('steps the keyboard rotations to the next allowed angle', () => {
+    const [rotation, setRotation] = createSignal(0)
+    const root = document.createElement('div')
+    document.body.appendChild(root)
+    const dispose = render(
+      () => (
+        <Cropper
+          image="/image.jpeg"
+          crop={{ x: 0, y: 0 }}
+          rotation={rotation()}
+          onCropChange={() => {}}
+          onRotationChange={setRotation}
+          aspect={1}
+          keyboardRotationStep={1}
+          rotationStep={15}
+        />
+      ),
+      root,
+    )
+
+    const container = loadImage(root)
+    const press = (key: string) => {
+      container.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }))
+      container.dispatchEvent(new KeyboardEvent('keyup', { key, bubbles: true }))
+    }
+    press(']')
+    press(']')
+    expect(rotation()).toBe(30)
+    press('[')
+    expect(rotation()).toBe(15)
+    dispose()
+    root.remove()
+  })
+
+  it.each([
+    {
+      lockAspect: false,
+      // the west edge is dragged 30px to the left, the crop area keeps its height
+      drags: [{ handle: 'w', from: [50, 100], to: [20, 100] }],
+      cropSize: { width: 130, height: 100 },
+      croppedAreaPixels: { x: 40, y: 0, width: 260, height: 200 },
+    },
+    {
+      lockAspect: true,
+      // the south-east corner is dragged in, then the smaller area is moved right and down
+      drags: [
+        { handle: 'se', from: [150, 150], to: [110, 110] },
+        { handle: 'move', from: [80, 80], to: [130, 90] },
+      ],
+      cropSize: { width: 60, height: 60 },
+      croppedAreaPixels: { x: 200, y: 20, width: 120, height: 120 },
+    },
+  ])(
+    'resizes and moves the crop area with lockAspect $lockAspect',
+    async ({ lockAspect, drags, cropSize, croppedAreaPixels }) => {
+      const onCropSizeChange = vi.fn()
+      const onCropComplete = vi.fn()
+      const root = document.createElement('div')
+      document.body.appendChild(root)
+      const dispose = render(
+        () => (
+          <Cropper
+            image="/image.jpeg"
+            crop={{ x: 0, y: 0 }}
+            onCropChange={() => {}}
+            aspect={1}
+            resizable
+            lockAspect={lockAspect}
+            onCropSizeChange={onCropSizeChange}
+            onCropComplete={onCropComplete}
+          />
+        ),
+        root,
+      )
+
+      // the 100x100 crop area is centered on the 200x100 media
+      loadImage(root)
+      for (const { handle, from, to } of drags) {
+        const target = root.querySelector(
+          handle === 'move'
+            ? '[data-testid="cropper"]'
+            : `[data-testid="cropper-handle-${handle}"]`,
+        )!
+        firePointer(target, 'pointerdown', 1, from[0], from[1])
+        firePointer(target, 'pointermove', 1, to[0], to[1])
+        await new Promise(resolve => requestAnimationFrame(resolve))
+        firePointer(target, 'pointerup', 1, to[0], to[1])
+      }
+
+      expect(onCropSizeChange).toHaveBeenLastCalledWith(cropSize)
+      expect(onCropComplete).toHaveBeenLastCalledWith(
+        expect.anything(),
+        croppedAreaPixels,
+        expect.anything(),
+      )
+      dispose()
+      root.remove()
+    },
+  )
+
+  describe('motion', () => {
+    // frames are run by hand, at the given times
+    let frames: FrameRequestCallback[] = []
+    const runFrame = (time: number) => {
+      vi.mocked(performance.now).mockReturnValue(time)
+      const pending = frames
+      frames = []
+      pending.forEach(frame => frame(time))
+    }
+
+    beforeEach(() => {
+      frames = []
+      vi.spyOn(performance, 'now').mockReturnValue(0)
+      vi.spyOn(window, 'requestAnimationFrame').mockImplementation(frame => frames.push(frame))
+      vi.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => {})
+    })
+
+    const renderAnimated = () => {
+      const [zoom, setZoom] = createSignal(1)
+      const root = document.createElement('div')
+      document.body.appendChild(root)
+      const dispose = render(
+        () => (
+          <Cropper
+            image="/image.jpeg"
+            crop={{ x: 0, y: 0 }}
+            zoom={zoom()}
+            onCropChange={() => {}}
+            onZoomChange={setZoom}
+            aspect={1}
+            animateChanges
+            animationDuration={100}
+            animationEasing={t => t}
+          />
+        ),
+        root,
+      )
+      const container = loadImage(root)
+      const getScale = () =>
+        root.querySelector('img')!.style.transform.match(/scale\(([^(),]+)\)$/)![1]
+      return {
+        zoom,
+        setZoom,
+        container,
+        getScale,
+        cleanup: () => {
+          dispose()
+          root.remove()
+        },
+      }
+    }
+
+    it('animates the changes made from outside, even back to an emitted value', () => {
+      const { zoom, setZoom, container, getScale, cleanup } = renderAnimated()
+
+      // the changes of the user are not animated
+      container.dispatchEvent(new KeyboardEvent('keydown', { key: '+', bubbles: true }))
+      container.dispatchEvent(new KeyboardEvent('keyup', { key: '+', bubbles: true }))
+      expect(zoom()).toBeCloseTo(1.1)
+      expect(frames).toHaveLength(0)
+
+      setZoom(2)
+      runFrame(50)
+      expect(Number(getScale())).toBeCloseTo(1.55)
+      runFrame(100)
+      expect(getScale()).toBe('2')
+
+      // the parent goes back to the zoom the Cropper gave it
+      setZoom(1.1)
+      runFrame(150)
+      expect(Number(getScale())).toBeCloseTo(1.55)
+      runFrame(200)
+      expect(Number(getScale())).toBeCloseTo(1.1)
+      cleanup()
+    })
+
+    it('skips the animations when the user prefers reduced motion', () => {
+      vi.stubGlobal('matchMedia', (query: string) => ({
+        matches: query === '(prefers-reduced-motion: reduce)',
+      }))
+      const { setZoom, getScale, cleanup } = renderAnimated()
+
+      setZoom(2)
+      expect(frames).toHaveLength(0)
+      expect(getScale()).toBe('2')
+      cleanup()
+    })
+
+    it('keeps the media inside the crop area after a throw', () => {
+      const [crop, setCrop] = createSignal({ x: 0, y: 0 })
+      const onInteractionEnd = vi.fn()
+      const root = document.createElement('div')
+      document.body.appendChild(root)
+      const dispose = render(
+        () => (
+          <Cropper
+            image="/image.jpeg"
+            crop={crop()}
+            onCropChange={setCrop}
+            aspect={1}
+            inertia
+            onInteractionEnd={onInteractionEnd}
+          />
+        ),
+        root,
+      )
+
+      // the 200x100 media moves by 50px at most on each side of the 100x100 crop area
+      const container = loadImage(root)
+      firePointer(container, 'pointerdown', 1, 100, 100)
+      vi.mocked(performance.now).mockReturnValue(16)
+      firePointer(container, 'pointermove', 1, 140, 100)
+      runFrame(16)
+      firePointer(container, 'pointerup', 1, 140, 100)
+      expect(crop()).toEqual({ x: 40, y: 0 })
+      expect(onInteractionEnd).not.toHaveBeenCalled()
+
+      for (let time = 32; frames.length && time < 1000; time += 16) {
+        runFrame(time)
+        expect(crop().x).toBeLessThanOrEqual(50)
+      }
+      expect(crop()).toEqual({ x: 50, y: 0 })
+      expect(onInteractionEnd).toHaveBeenCalledTimes(1)
+      dispose()
+      root.remove()
+    })
+  })
+})
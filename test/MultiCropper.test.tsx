@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from 'vitest'
+import { render } from 'solid-js/web'
+import { Area, CroppedRegion, CropperController, MultiCropper, Size } from '../src'
+
+describe('MultiCropper', () => {
+  // jsdom has no PointerEvent, a MouseEvent carries the pointer properties
+  const firePointer = (target: Element, type: string, x: number, y: number) => {
+    const event = new MouseEvent(type, { bubbles: true, cancelable: true, clientX: x, clientY: y })
+    Object.assign(event, { pointerId: 1, pointerType: 'mouse' })
+    target.dispatchEvent(event)
+    return event
+  }
+
+  it('selects the regions pressed outside of the active crop area and drags the active one', async () => {
+    const onActiveRegionChange = vi.fn()
+    const onInteractionStart = vi.fn()
+    let regions: CroppedRegion[] = []
+    const root = document.createElement('div')
+    document.body.appendChild(root)
+    const dispose = render(
+      () => (
+        <MultiCropper
+          image="/image.jpeg"
+          regions={[
+            { id: 'square', aspect: 1 },
+            // the left quarter of the media, away from the active crop area
+            {
+              id: 'left',
+              aspect: 1,
+              initialCroppedAreaPercentages: { x: 0, y: 0, width: 25, height: 50 },
+            },
+            // partly under the active crop area
+            {
+              id: 'middle',
+              aspect: 1,
+              initialCroppedAreaPercentages: { x: 20, y: 0, width: 25, height: 50 },
+            },
+          ]}
+          onActiveRegionChange={onActiveRegionChange}
+          onCropRegionsChange={value => (regions = value)}
+          onInteractionStart={onInteractionStart}
+        />
+      ),
+      root,
+    )
+
+    // a 400x200 container displaying a 800x400 image with a 200x200 crop area
+    const getRect = () =>
+      ({ left: 0, top: 0, right: 400, bottom: 200, width: 400, height: 200 } as DOMRect)
+    const multiContainer = root.querySelector<HTMLElement>('.reactEasyCrop_MultiContainer')!
+    const container = root.querySelector<HTMLElement>('[data-testid="container"]')!
+    multiContainer.getBoundingClientRect = getRect
+    container.getBoundingClientRect = getRect
+    const image = root.querySelector('img')!
+    Object.defineProperties(image, {
+      naturalWidth: { value: 800 },
+      naturalHeight: { value: 400 },
+    })
+    image.dispatchEvent(new Event('load'))
+    expect(root.querySelector('[data-testid="region-middle"]')).not.toBeNull()
+
+    // the middle region is under the pointer, but so is the active crop area
+    firePointer(container, 'pointerdown', 120, 50)
+    expect(onActiveRegionChange).not.toHaveBeenCalled()
+    expect(onInteractionStart).toHaveBeenCalledTimes(1)
+    firePointer(container, 'pointermove', 140, 50)
+    await new Promise(resolve => requestAnimationFrame(resolve))
+    firePointer(container, 'pointerup', 140, 50)
+    const square = regions.find(region => region.id === 'square')!
+    expect(square.croppedAreaPixels.x).toBe(160)
+
+    firePointer(container, 'pointerdown', 50, 50)
+    expect(onActiveRegionChange).toHaveBeenCalledWith('left')
+    expect(onInteractionStart).toHaveBeenCalledTimes(1)
+    expect(
+      root
+        .querySelector('[data-testid="region-left"]')!
+        .classList.contains('reactEasyCrop_RegionActive'),
+    ).toBe(true)
+    dispose()
+    root.remove()
+  })
+
+  it.each([
+    { name: 'letterbox', props: { letterbox: true, minZoom: 0.5 }, zoom: 0.5 },
+    { name: 'zoomToCover', props: { zoomToCover: true, rotation: 30 }, zoom: 1 },
+  ])('reports the regions like the Cropper with $name', ({ props, zoom }) => {
+    let controller: CropperController | undefined
+    let regions: CroppedRegion[] = []
+    let croppedAreaPixels: Area | undefined
+    let cropSize: Size | undefined
+    const root = document.createElement('div')
+    const dispose = render(
+      () => (
+        <MultiCropper
+          image="/image.jpeg"
+          regions={[{ id: 'square', aspect: 1 }]}
+          onCropRegionsChange={value => (regions = value)}
+          onCropComplete={(_, areaPixels) => (croppedAreaPixels = areaPixels)}
+          onCropSizeChange={size => (cropSize = size)}
+          setController={value => (controller = value)}
+          {...props}
+        />
+      ),
+      root,
+    )
+
+    // a 200x200 container displaying a 400x200 image
+    const getRect = () =>
+      ({ left: 0, top: 0, right: 200, bottom: 200, width: 200, height: 200 } as DOMRect)
+    root.querySelector<HTMLElement>('.reactEasyCrop_MultiContainer')!.getBoundingClientRect =
+      getRect
+    root.querySelector<HTMLElement>('[data-testid="container"]')!.getBoundingClientRect = getRect
+    const image = root.querySelector('img')!
+    Object.defineProperties(image, {
+      naturalWidth: { value: 400 },
+      naturalHeight: { value: 200 },
+    })
+    image.dispatchEvent(new Event('load'))
+    controller!.zoomTo(zoom)
+
+    expect(regions[0]!.croppedAreaPixels).toEqual(croppedAreaPixels)
+    // the outline of the active region is the crop area
+    const outline = root.querySelector<HTMLElement>('[data-testid="region-square"]')!
+    expect(parseFloat(outline.style.width)).toBeCloseTo(cropSize!.width)
+    expect(parseFloat(outline.style.height)).toBeCloseTo(cropSize!.height)
+    dispose()
+  })
+})
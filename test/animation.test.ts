@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { easeOutCubic, getVelocity, interpolate } from '../src/animation'
+
+describe('getVelocity', () => {
+  it('uses the latest moves only', () => {
+    const samples = [
+      { x: 0, y: 0, time: 0 },
+      { x: 100, y: 0, time: 200 },
+      { x: 150, y: 20, time: 250 },
+      { x: 200, y: 40, time: 300 },
+    ]
+
+    expect(getVelocity(samples, 300)).toEqual({ x: 1, y: 0.4 })
+  })
+
+  it('stops when the pointer paused before the release', () => {
+    expect(getVelocity([{ x: 0, y: 0, time: 0 }], 500)).toEqual({ x: 0, y: 0 })
+  })
+})
+
+describe('interpolate', () => {
+  it('goes from one value to the other with an easing', () => {
+    expect(interpolate(1, 3, 0)).toBe(1)
+    expect(interpolate(1, 3, easeOutCubic(0.5))).toBeCloseTo(2.75)
+    expect(interpolate(1, 3, easeOutCubic(1))).toBe(3)
+  })
+})
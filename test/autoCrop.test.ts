@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { getAutoCropFromImageData } from '../src'
+
+// a flat grey image with a checkerboard square, the detailed part of the picture
+function createImageData(
+  width: number,
+  height: number,
+  detail: { x: number; y: number; size: number },
+) {
+  const data = new Uint8ClampedArray(width * height * 4).fill(128)
+  for (let y = detail.y; y < detail.y + detail.size; y++) {
+    for (let x = detail.x; x < detail.x + detail.size; x++) {
+      const value = (x + y) % 2 ? 255 : 0
+      data.fill(value, (y * width + x) * 4, (y * width + x) * 4 + 3)
+    }
+  }
+  return { data, width, height }
+}
+
+describe('getAutoCropFromImageData', () => {
+  it('moves the crop over the detailed part of the image', () => {
+    const imageData = createImageData(100, 50, { x: 75, y: 10, size: 20 })
+    const area = getAutoCropFromImageData(imageData, 1)
+    expect(area.width).toBe(50)
+    expect(area.x).toBeLessThanOrEqual(75)
+    expect(area.x + area.width).toBeGreaterThanOrEqual(95)
+  })
+
+  it('zooms in on the details with smaller scales', () => {
+    const imageData = createImageData(100, 50, { x: 10, y: 10, size: 20 })
+    const area = getAutoCropFromImageData(imageData, 1, { scales: [1, 0.5] })
+    expect(area.width).toBe(25)
+    expect(area.x).toBeGreaterThanOrEqual(5)
+    expect(area.x + area.width).toBeLessThanOrEqual(35)
+  })
+
+  it('reaches the far edges off the step grid', () => {
+    // the candidates are 4px apart, the last one on the grid starts at 68
+    const imageData = createImageData(100, 100, { x: 80, y: 80, size: 20 })
+    const area = getAutoCropFromImageData(imageData, 1, { scales: [0.3] })
+    expect(area).toEqual({ x: 70, y: 70, width: 30, height: 30 })
+  })
+
+  it('centers the crop on a flat image', () => {
+    const imageData = createImageData(100, 50, { x: 0, y: 0, size: 0 })
+    expect(getAutoCropFromImageData(imageData, 2 / 5)).toEqual({
+      x: 40,
+      y: 0,
+      width: 20,
+      height: 50,
+    })
+  })
+})
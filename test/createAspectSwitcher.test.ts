@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createRoot } from 'solid-js'
+import {
+  Area,
+  CropperController,
+  createAspectPresetRegistry,
+  createAspectSwitcher,
+  createCropperState,
+  getCenteredAreaForAspect,
+} from '../src'
+
+describe('createAspectPresetRegistry', () => {
+  it('registers, replaces and removes presets', () => {
+    const registry = createAspectPresetRegistry([{ id: 'square', label: 'Square', aspect: 1 }])
+    registry.register({ id: 'wide', label: 'Wide', aspect: 2 })
+    registry.register({
+      id: 'square',
+      label: 'Square',
+      aspect: 1,
+      outputSize: { width: 100, height: 100 },
+    })
+    expect(registry.presets().map(({ id }) => id)).toEqual(['square', 'wide'])
+    expect(registry.get('square')?.outputSize).toEqual({ width: 100, height: 100 })
+
+    registry.unregister('wide')
+    expect(registry.get('wide')).toBeUndefined()
+    expect(() => registry.register({ id: 'flat', label: 'Flat', aspect: 0 })).toThrow()
+  })
+})
+
+describe('getCenteredAreaForAspect', () => {
+  it('keeps the center and surface of the area', () => {
+    const area = getCenteredAreaForAspect(
+      { x: 25, y: 25, width: 50, height: 50 },
+      { x: 100, y: 100, width: 200, height: 200 },
+      4,
+    )
+    expect(area).toEqual({ x: 0, y: 150, width: 400, height: 100 })
+  })
+
+  it('shrinks the area to stay on the media', () => {
+    const area = getCenteredAreaForAspect(
+      { x: 10, y: 10, width: 20, height: 20 },
+      { x: 40, y: 40, width: 80, height: 80 },
+      4,
+    )
+    // the center is 80px from the left edge of the 400px media
+    expect(area).toEqual({ x: 0, y: 60, width: 160, height: 40 })
+  })
+})
+
+describe('createAspectSwitcher', () => {
+  it('changes the aspect and fits the area around the same center', () => {
+    createRoot(dispose => {
+      const cropper = createCropperState()
+      const registry = createAspectPresetRegistry([
+        { id: 'square', label: 'Square', aspect: 1 },
+        { id: 'wide', label: 'Wide', aspect: 4 },
+      ])
+      const switcher = createAspectSwitcher(cropper, { registry, initialPresetId: 'square' })
+      expect(cropper.aspect()).toBe(1)
+
+      const fitArea = vi.fn((_area: Area) => {})
+      const controller: CropperController = {
+        zoomTo: () => {},
+        panTo: () => {},
+        rotateTo: () => {},
+        fitArea,
+        reset: () => {},
+      }
+      switcher.props.setController(controller)
+      cropper.props.onCropAreaChange(
+        { x: 25, y: 25, width: 50, height: 50 },
+        { x: 100, y: 100, width: 200, height: 200 },
+      )
+      switcher.select('wide')
+
+      expect(switcher.preset()?.id).toBe('wide')
+      expect(cropper.aspect()).toBe(4)
+      // the area is fitted once the Cropper has the crop area of the new aspect
+      expect(fitArea).not.toHaveBeenCalled()
+      switcher.props.setCropSize({ width: 400, height: 100 })
+      expect(fitArea).toHaveBeenCalledWith({ x: 0, y: 150, width: 400, height: 100 })
+      switcher.props.setCropSize({ width: 200, height: 50 })
+      expect(fitArea).toHaveBeenCalledTimes(1)
+
+      // the crop area keeps its size with the same aspect
+      switcher.select('wide')
+      expect(fitArea).toHaveBeenCalledTimes(2)
+      expect(() => switcher.select('unknown')).toThrow()
+      dispose()
+    })
+  })
+})
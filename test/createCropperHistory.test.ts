@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { createRoot } from 'solid-js'
+import { createCropperHistory, createCropperState } from '../src'
+
+describe('createCropperHistory', () => {
+  it('undoes and redoes the recorded snapshots', () => {
+    createRoot(dispose => {
+      const cropper = createCropperState()
+      const history = createCropperHistory(cropper, { depth: 2 })
+      expect(history.canUndo()).toBe(false)
+
+      cropper.setZoom(2)
+      history.record()
+      cropper.setCrop({ x: 10, y: 0 })
+      history.record()
+      cropper.setRotation(90)
+      history.record()
+
+      history.undo()
+      expect(cropper.rotation()).toBe(0)
+      history.undo()
+      expect(cropper.crop()).toEqual({ x: 0, y: 0 })
+      expect(cropper.zoom()).toBe(2)
+      // the depth only keeps the last two changes
+      expect(history.canUndo()).toBe(false)
+
+      history.redo()
+      expect(cropper.crop()).toEqual({ x: 10, y: 0 })
+      expect(history.canRedo()).toBe(true)
+      dispose()
+    })
+  })
+
+  it('starts from the crop the media is loaded with', () => {
+    createRoot(dispose => {
+      const cropper = createCropperState()
+      const history = createCropperHistory(cropper)
+
+      // the Cropper applies the initial crop before calling onMediaLoaded
+      cropper.setCrop({ x: 20, y: 0 })
+      cropper.setZoom(2)
+      history.props.onMediaLoaded()
+      expect(history.canUndo()).toBe(false)
+
+      cropper.setZoom(3)
+      history.record()
+      history.undo()
+      expect(cropper.crop()).toEqual({ x: 20, y: 0 })
+      expect(cropper.zoom()).toBe(2)
+      dispose()
+    })
+  })
+})
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { createRoot } from 'solid-js'
+import { createCropperState } from '../src'
+
+describe('createCropperState', () => {
+  it('updates the state through the Cropper props and resets it', () => {
+    createRoot(dispose => {
+      const cropper = createCropperState({ zoom: 1.5, aspect: 1 })
+
+      cropper.props.onCropChange({ x: 10, y: 20 })
+      cropper.props.onZoomChange(2)
+      cropper.props.onCropAreaChange(
+        { x: 0, y: 0, width: 50, height: 50 },
+        { x: 0, y: 0, width: 100, height: 100 },
+      )
+      expect(cropper.props.crop).toEqual({ x: 10, y: 20 })
+      expect(cropper.props.zoom).toBe(2)
+      expect(cropper.croppedAreaPixels()).toEqual({ x: 0, y: 0, width: 100, height: 100 })
+
+      cropper.reset()
+      expect(cropper.crop()).toEqual({ x: 0, y: 0 })
+      expect(cropper.zoom()).toBe(1.5)
+      expect(cropper.props.aspect).toBe(1)
+      dispose()
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import { computeCrop, getRenderedMediaSize, getZoomedCrop, getZoomRange } from '../src/cropEngine'
+
+const containerSize = { width: 800, height: 600 }
+const naturalMediaSize = { width: 2000, height: 1200 }
+
+describe('getRenderedMediaSize', () => {
+  it('follows the objectFit of the media', () => {
+    expect(getRenderedMediaSize(containerSize, naturalMediaSize)).toEqual({
+      width: 800,
+      height: 480,
+    })
+    expect(getRenderedMediaSize(containerSize, naturalMediaSize, 'vertical-cover')).toEqual({
+      width: 1000,
+      height: 600,
+    })
+    expect(getRenderedMediaSize(containerSize, { width: 400, height: 300 })).toEqual({
+      width: 400,
+      height: 300,
+    })
+  })
+})
+
+describe('getZoomedCrop', () => {
+  it('keeps the point under the cursor in place', () => {
+    const point = { x: 100, y: -50 }
+    const crop = getZoomedCrop(point, { x: 20, y: 10 }, 1, 2)
+    expect(crop).toEqual({ x: 140, y: -30 })
+    expect(getZoomedCrop(point, crop, 2, 1)).toEqual({ x: 20, y: 10 })
+  })
+})
+
+describe('computeCrop', () => {
+  it('reproduces the cropped area of a Cropper without DOM', () => {
+    const result = computeCrop({
+      containerSize,
+      naturalMediaSize,
+      aspect: 4 / 3,
+      crop: { x: 0, y: 0 },
+      zoom: 1,
+    })
+
+    expect(result.cropSize).toEqual({ width: 640, height: 480 })
+    expect(result.croppedAreaPixels).toEqual({ x: 200, y: 0, width: 1600, height: 1200 })
+    expect(result.padding).toEqual({ top: 0, right: 0, bottom: 0, left: 0 })
+  })
+
+  it('restricts the crop to the media', () => {
+    const { crop } = computeCrop({
+      containerSize,
+      naturalMediaSize,
+      aspect: 4 / 3,
+      crop: { x: 500, y: 0 },
+      zoom: 1,
+    })
+    expect(crop).toEqual({ x: 80, y: 0 })
+  })
+
+  it('zooms so the straightened media covers the crop area with zoomToCover', () => {
+    const result = computeCrop({
+      containerSize,
+      naturalMediaSize,
+      aspect: 4 / 3,
+      crop: { x: 0, y: 0 },
+      zoom: 1,
+      rotation: 10,
+      zoomToCover: true,
+    })
+
+    // the crop area keeps the size it has without rotation
+    expect(result.cropSize).toEqual({ width: 640, height: 480 })
+    expect(result.zoom).toBeGreaterThan(1)
+    expect(result.zoom).toBe(result.minZoom)
+  })
+
+  it('keeps the cropped area between minCroppedAreaPixels and maxCroppedAreaPixels', () => {
+    const input = {
+      containerSize,
+      naturalMediaSize,
+      aspect: 4 / 3,
+      crop: { x: 0, y: 0 },
+      maxZoom: 10,
+      minCroppedAreaPixels: { width: 400, height: 300 },
+    }
+
+    const { zoom, maxZoom, croppedAreaPixels } = computeCrop({ ...input, zoom: 8 })
+    expect(zoom).toBe(maxZoom)
+    expect(croppedAreaPixels.width).toBe(400)
+    expect(computeCrop({ ...input, zoom: 2 }).zoom).toBe(2)
+  })
+
+  it('restricts a resized crop area moved away from the center', () => {
+    const { crop, croppedAreaPixels } = computeCrop({
+      containerSize,
+      naturalMediaSize,
+      aspect: 1,
+      cropSize: { width: 200, height: 200 },
+      cropAreaOffset: { x: 100, y: 0 },
+      crop: { x: 500, y: 0 },
+      zoom: 1,
+      resizable: true,
+    })
+
+    // the media, 800px wide, reaches 300px right of the crop area center
+    expect(crop).toEqual({ x: 400, y: 0 })
+    expect(croppedAreaPixels).toEqual({ x: 0, y: 350, width: 500, height: 500 })
+  })
+})
+
+describe('getZoomRange', () => {
+  it('keeps a resized crop area covered by the media', () => {
+    const mediaSize = { width: 800, height: 480, naturalWidth: 2000, naturalHeight: 1200 }
+    const range = getZoomRange(
+      mediaSize,
+      { width: 600, height: 600 },
+      { minZoom: 1, maxZoom: 3, resizable: true },
+    )
+    expect(range.minZoom).toBe(1.25)
+    expect(range.maxZoom).toBe(3)
+  })
+})
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { captureVideoFrame } from '../src'
+
+// jsdom has no canvas rendering, the context records what is drawn
+function mockCanvas() {
+  const ctx = {
+    translate: vi.fn(),
+    rotate: vi.fn(),
+    scale: vi.fn(),
+    drawImage: vi.fn(),
+  }
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(
+    ctx as unknown as CanvasRenderingContext2D,
+  )
+  vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue('data:image/png;base64,')
+  return ctx
+}
+
+function createVideo() {
+  const video = document.createElement('video')
+  let currentTime = 0
+  Object.defineProperties(video, {
+    videoWidth: { value: 160 },
+    videoHeight: { value: 90 },
+    currentTime: {
+      get: () => currentTime,
+      set: (time: number) => {
+        currentTime = time
+        video.dispatchEvent(new Event(time < 0 ? 'error' : 'seeked'))
+      },
+    },
+  })
+  video.pause = vi.fn()
+  return video
+}
+
+describe('captureVideoFrame', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('draws the current frame without seeking', async () => {
+    const ctx = mockCanvas()
+    const video = createVideo()
+
+    const frame = await captureVideoFrame(
+      video,
+      { x: 10, y: 20, width: 50, height: 40 },
+      { outputType: 'dataUrl' },
+    )
+
+    expect(frame).toBe('data:image/png;base64,')
+    expect(video.pause).not.toHaveBeenCalled()
+    expect(ctx.drawImage).toHaveBeenCalledWith(video, 0, 0)
+    expect(ctx.drawImage).toHaveBeenLastCalledWith(expect.any(HTMLCanvasElement), -10, -20)
+  })
+
+  it('pauses and seeks to the given time first', async () => {
+    const ctx = mockCanvas()
+    const video = createVideo()
+
+    await captureVideoFrame(
+      video,
+      { x: 0, y: 0, width: 160, height: 90 },
+      { time: 3.5, outputType: 'dataUrl' },
+    )
+
+    expect(video.pause).toHaveBeenCalled()
+    expect(video.currentTime).toBe(3.5)
+    expect(ctx.drawImage).toHaveBeenCalledWith(video, 0, 0)
+  })
+
+  it('rejects when the video cannot seek', async () => {
+    mockCanvas()
+    await expect(
+      captureVideoFrame(createVideo(), { x: 0, y: 0, width: 160, height: 90 }, { time: -1 }),
+    ).rejects.toThrow('Unable to seek the video to -1s')
+  })
+})
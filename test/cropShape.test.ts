@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { getCropShapeMask, isCssCropShape } from '../src/cropShape'
+
+const size = { width: 200, height: 100 }
+
+describe('getCropShapeMask', () => {
+  it('draws the built-in shapes in the crop area coordinates', () => {
+    expect(getCropShapeMask('rect', size)).toEqual({
+      path: 'M0 0 H200 A0 0 0 0 1 200 0 V100 A0 0 0 0 1 200 100 H0 A0 0 0 0 1 0 100 V0 A0 0 0 0 1 0 0 Z',
+      viewBox: size,
+    })
+    expect(getCropShapeMask('ellipse', size).path).toBe(
+      'M0 50 A100 50 0 1 0 200 50 A100 50 0 1 0 0 50 Z',
+    )
+  })
+
+  it('never rounds the corners more than half of the smallest side', () => {
+    const { path } = getCropShapeMask({ type: 'roundedRect', radius: 80 }, size)
+    expect(path.startsWith('M50 0 H150 A50 50')).toBe(true)
+  })
+
+  it('expresses polygons and paths in their own viewBox', () => {
+    const polygon = getCropShapeMask(
+      {
+        type: 'polygon',
+        points: [
+          { x: 50, y: 0 },
+          { x: 100, y: 100 },
+          { x: 0, y: 100 },
+        ],
+      },
+      size,
+    )
+    expect(polygon).toEqual({
+      path: 'M50 0 L100 100 L0 100 Z',
+      viewBox: { width: 100, height: 100 },
+    })
+
+    const path = getCropShapeMask(
+      { type: 'path', path: 'M0 0h24v24z', viewBox: { width: 24, height: 24 } },
+      size,
+    )
+    expect(path.viewBox).toEqual({ width: 24, height: 24 })
+  })
+})
+
+describe('isCssCropShape', () => {
+  it('only keeps shapes a border-radius can draw', () => {
+    expect(isCssCropShape('round')).toBe(true)
+    expect(isCssCropShape({ type: 'roundedRect', radius: 8 })).toBe(true)
+    expect(isCssCropShape({ type: 'path', path: 'M0 0' })).toBe(false)
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createCropState,
+  CropStateError,
+  getCropStateProps,
+  parseCropState,
+  serializeCropState,
+} from '../src/cropState'
+
+const state = createCropState(
+  { x: 10.123456, y: -5, width: 50, height: 40 },
+  { x: 202, y: -50, width: 1000, height: 750 },
+  { rotation: 90, flip: { horizontal: true, vertical: false }, aspect: 4 / 3, zoom: 2 },
+)
+
+describe('serializeCropState', () => {
+  it('round-trips through JSON', () => {
+    expect(parseCropState(serializeCropState(state))).toEqual(state)
+  })
+
+  it('encodes a compact url string', () => {
+    const url = serializeCropState(state, 'url')
+    expect(url).toBe('1_10.1235~-5~50~40_202~-50~1000~750_r90_fh_a1.3333333333333333_z2')
+    expect(encodeURIComponent(url)).toBe(url)
+    expect(parseCropState(url, 'url')).toEqual({
+      ...state,
+      croppedArea: { ...state.croppedArea, x: 10.1235 },
+    })
+  })
+
+  it('restores the exact aspect from urls', () => {
+    const restored = parseCropState(serializeCropState(state, 'url'), 'url')
+    expect(restored.aspect).toBe(4 / 3)
+    expect(getCropStateProps(restored)).toEqual(getCropStateProps(state))
+  })
+
+  it('omits the default values from urls', () => {
+    const url = serializeCropState(
+      createCropState(
+        { x: 0, y: 0, width: 10, height: 20 },
+        { x: 0, y: 0, width: 100, height: 200 },
+      ),
+      'url',
+    )
+    expect(url).toBe('1_0~0~10~20_0~0~100~200')
+    expect(parseCropState(url, 'url').flip).toEqual({ horizontal: false, vertical: false })
+  })
+})
+
+describe('parseCropState', () => {
+  it('rejects malformed input', () => {
+    expect(() => parseCropState('{')).toThrow(CropStateError)
+    expect(() => parseCropState(JSON.stringify({ ...state, version: 2 }))).toThrow(/version/)
+    expect(() =>
+      parseCropState(JSON.stringify({ ...state, croppedAreaPixels: { x: 0, y: 0 } })),
+    ).toThrow(/croppedAreaPixels/)
+    expect(() => parseCropState('1_0~0~10~10', 'url')).toThrow(CropStateError)
+    expect(() => parseCropState('1_0~0~10~10_0~0~10~10_q1', 'url')).toThrow(/Unknown option/)
+  })
+})
+
+describe('getCropStateProps', () => {
+  it('gives the initial cropped area in the requested unit', () => {
+    expect(getCropStateProps(state)).toEqual({
+      initialCroppedAreaPixels: state.croppedAreaPixels,
+      rotation: 90,
+      flip: { horizontal: true, vertical: false },
+      aspect: 4 / 3,
+    })
+    expect(getCropStateProps(state, 'percent')).toMatchObject({
+      initialCroppedAreaPercentages: state.croppedArea,
+    })
+  })
+})
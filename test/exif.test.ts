@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { getExifOrientation, getOrientedSize, getSourceArea, readExifOrientation } from '../src'
+
+// a JPEG header with a JFIF segment, then an EXIF segment holding only the orientation
+function createJpeg(orientation: number, littleEndian = false) {
+  const tiff = littleEndian
+    ? [0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]
+    : [0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08]
+  const uint16 = (value: number) =>
+    littleEndian ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff]
+  const ifd = [
+    ...uint16(1),
+    ...uint16(0x0112),
+    ...uint16(3),
+    0,
+    0,
+    0,
+    0,
+    ...uint16(orientation),
+    0,
+    0,
+  ]
+  const exif = [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff, ...ifd]
+  const jfif = [0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]
+  return new Uint8Array([
+    0xff,
+    0xd8,
+    0xff,
+    0xe0,
+    0,
+    jfif.length + 2,
+    ...jfif,
+    0xff,
+    0xe1,
+    0,
+    exif.length + 2,
+    ...exif,
+    0xff,
+    0xda,
+    0,
+    2,
+  ]).buffer
+}
+
+describe('readExifOrientation', () => {
+  it('reads the orientation in both byte orders', () => {
+    expect(readExifOrientation(createJpeg(6))).toBe(6)
+    expect(readExifOrientation(createJpeg(8, true))).toBe(8)
+  })
+
+  it('defaults to 1 for other files and invalid values', () => {
+    expect(readExifOrientation(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBe(1)
+    expect(readExifOrientation(createJpeg(9))).toBe(1)
+    expect(readExifOrientation(createJpeg(6).slice(0, 30))).toBe(1)
+  })
+
+  it('reads array buffers asynchronously', async () => {
+    expect(await getExifOrientation(createJpeg(3))).toBe(3)
+  })
+})
+
+describe('getSourceArea', () => {
+  // the stored image is 400x300, the top left area of 100x50 is mapped back to it
+  const orientedSize = getOrientedSize({ width: 400, height: 300 }, 6)
+  const sourceArea = { x: 0, y: 0, width: 100, height: 50 }
+
+  it('undoes the rotation', () => {
+    expect(orientedSize).toEqual({ width: 300, height: 400 })
+    expect(getSourceArea({ x: 250, y: 0, width: 50, height: 100 }, orientedSize, 6)).toEqual(
+      sourceArea,
+    )
+    expect(getSourceArea({ x: 0, y: 300, width: 50, height: 100 }, orientedSize, 8)).toEqual(
+      sourceArea,
+    )
+  })
+
+  it('undoes the rotation and the flip', () => {
+    expect(getSourceArea({ x: 0, y: 0, width: 50, height: 100 }, orientedSize, 5)).toEqual(
+      sourceArea,
+    )
+    expect(
+      getSourceArea({ x: 0, y: 250, width: 100, height: 50 }, { width: 400, height: 300 }, 4),
+    ).toEqual(sourceArea)
+  })
+})
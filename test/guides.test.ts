@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { getCropGuideLines } from '../src/guides'
+
+describe('getCropGuideLines', () => {
+  it('splits the crop area in thirds', () => {
+    const lines = getCropGuideLines('thirds')
+    expect(lines).toHaveLength(4)
+    expect(lines[0]![0]).toBeCloseTo(33.33)
+    expect(lines[3]![1]).toBeCloseTo(66.67)
+  })
+
+  it('places the golden ratio lines', () => {
+    const [first, , second] = getCropGuideLines('golden')
+    expect(first![0]).toBeCloseTo(38.2, 1)
+    expect(second![0]).toBeCloseTo(61.8, 1)
+  })
+
+  it('draws a custom grid', () => {
+    expect(getCropGuideLines({ rows: 2, columns: 4 })).toEqual([
+      [25, 0, 25, 100],
+      [50, 0, 50, 100],
+      [75, 0, 75, 100],
+      [0, 50, 100, 50],
+    ])
+    expect(getCropGuideLines({ rows: 1, columns: 1 })).toEqual([])
+  })
+})
@@ -0,0 +1,295 @@
+import { describe, expect, it } from 'vitest'
+import {
+  computeCroppedArea,
+  constrainRotation,
+  getCoverZoom,
+  getCroppedAreaPadding,
+  getCroppedAreaZoomRange,
+  getInitialCropFromCroppedAreaPercentages,
+  getCroppedAreaRect,
+  getInitialCropFromCroppedAreaPixels,
+  getInitialCropFromFocalPoint,
+  resizeCropArea,
+  restrictPosition,
+  restrictPositionInRotatedMedia,
+} from '../src/helpers'
+
+const mediaSize = { width: 1000, height: 600, naturalWidth: 2000, naturalHeight: 1200 }
+const cropSize = { width: 400, height: 300 }
+
+describe('computeCroppedArea', () => {
+  it('mirrors the area on the unflipped media', () => {
+    const crop = { x: 120, y: -40 }
+    const { croppedAreaPixels } = computeCroppedArea(crop, mediaSize, cropSize, 4 / 3, 2)
+    const flipped = computeCroppedArea(crop, mediaSize, cropSize, 4 / 3, 2, 0, true, {
+      horizontal: true,
+      vertical: true,
+    }).croppedAreaPixels
+
+    expect(flipped.width).toBe(croppedAreaPixels.width)
+    expect(flipped.x).toBe(2000 - croppedAreaPixels.width - croppedAreaPixels.x)
+    expect(flipped.y).toBe(1200 - croppedAreaPixels.height - croppedAreaPixels.y)
+  })
+
+  it('round-trips flipped areas', () => {
+    const crop = { x: 120, y: -40 }
+    const flip = { horizontal: true, vertical: false }
+    const { croppedAreaPercentages, croppedAreaPixels } = computeCroppedArea(
+      crop,
+      mediaSize,
+      cropSize,
+      4 / 3,
+      2,
+      90,
+      true,
+      flip,
+    )
+
+    const fromPercentages = getInitialCropFromCroppedAreaPercentages(
+      croppedAreaPercentages,
+      mediaSize,
+      90,
+      cropSize,
+      1,
+      3,
+      flip,
+    )
+    expect(fromPercentages.zoom).toBeCloseTo(2)
+    expect(fromPercentages.crop.x).toBeCloseTo(crop.x)
+    expect(fromPercentages.crop.y).toBeCloseTo(crop.y)
+
+    const fromPixels = getInitialCropFromCroppedAreaPixels(
+      croppedAreaPixels,
+      mediaSize,
+      90,
+      cropSize,
+      1,
+      3,
+      flip,
+    )
+    expect(fromPixels.zoom).toBeCloseTo(2)
+    expect(fromPixels.crop.x).toBeCloseTo(crop.x, 0)
+    expect(fromPixels.crop.y).toBeCloseTo(crop.y, 0)
+  })
+})
+
+describe('getInitialCropFromFocalPoint', () => {
+  it('centers the crop area on the focal point of a rotated and flipped media', () => {
+    const flip = { horizontal: true, vertical: false }
+    const { crop, zoom } = getInitialCropFromFocalPoint(
+      { x: 1200, y: 700, unit: 'pixel', zoom: 2 },
+      mediaSize,
+      90,
+      cropSize,
+      1,
+      3,
+      flip,
+    )
+    const { croppedAreaPixels } = computeCroppedArea(
+      crop,
+      mediaSize,
+      cropSize,
+      4 / 3,
+      zoom,
+      90,
+      true,
+      flip,
+    )
+
+    // the focal point is at (500, 1200) once the media is rotated by 90°
+    expect(zoom).toBe(2)
+    expect(croppedAreaPixels.x + croppedAreaPixels.width / 2).toBeCloseTo(500, 0)
+    expect(croppedAreaPixels.y + croppedAreaPixels.height / 2).toBeCloseTo(1200, 0)
+  })
+
+  it('keeps the media in the crop area unless told otherwise', () => {
+    const focalPoint = { x: 0, y: 0, unit: 'percent' as const }
+    expect(getInitialCropFromFocalPoint(focalPoint, mediaSize, 0, cropSize, 1, 3).crop).toEqual({
+      x: 300,
+      y: 150,
+    })
+    expect(
+      getInitialCropFromFocalPoint(focalPoint, mediaSize, 0, cropSize, 1, 3, undefined, false).crop,
+    ).toEqual({ x: 500, y: 300 })
+  })
+})
+
+describe('resizeCropArea', () => {
+  const bounds = { x: -250, y: -150, width: 500, height: 300 }
+  const minSize = { width: 20, height: 20 }
+  const maxSize = { width: Infinity, height: Infinity }
+
+  it('keeps the opposite edges in place', () => {
+    const { cropSize, offset } = resizeCropArea(
+      'se',
+      { width: 200, height: 100 },
+      { x: 0, y: 0 },
+      { x: 30, y: 20 },
+      bounds,
+      minSize,
+      maxSize,
+    )
+
+    expect(cropSize).toEqual({ width: 230, height: 120 })
+    expect(offset.x - cropSize.width / 2).toBe(-100)
+    expect(offset.y - cropSize.height / 2).toBe(-50)
+  })
+
+  it('preserves the locked aspect inside the bounds', () => {
+    const { cropSize, offset } = resizeCropArea(
+      'w',
+      { width: 200, height: 100 },
+      { x: 0, y: 0 },
+      { x: -1000, y: 0 },
+      bounds,
+      minSize,
+      maxSize,
+      2,
+    )
+
+    expect(cropSize).toEqual({ width: 350, height: 175 })
+    expect(offset.x + cropSize.width / 2).toBe(100)
+    expect(offset.y).toBe(0)
+  })
+})
+
+describe('getCroppedAreaRect', () => {
+  it('places a cropped area back under the crop area', () => {
+    const crop = { x: 50, y: 20 }
+    const flip = { horizontal: true, vertical: false }
+    const { croppedAreaPercentages } = computeCroppedArea(
+      crop,
+      mediaSize,
+      cropSize,
+      4 / 3,
+      1.5,
+      0,
+      true,
+      flip,
+    )
+    const rect = getCroppedAreaRect(croppedAreaPercentages, mediaSize, crop, 1.5, 0, flip)
+
+    expect(rect.x).toBeCloseTo(-cropSize.width / 2)
+    expect(rect.y).toBeCloseTo(-cropSize.height / 2)
+    expect(rect.width).toBeCloseTo(cropSize.width)
+    expect(rect.height).toBeCloseTo(cropSize.height)
+  })
+})
+
+describe('getCoverZoom', () => {
+  it('zooms in so the rotated media covers the crop area', () => {
+    expect(getCoverZoom(mediaSize, cropSize)).toBeCloseTo(0.5)
+    expect(getCoverZoom(mediaSize, { width: 600, height: 600 }, 45)).toBeCloseTo(
+      (600 * Math.SQRT2) / 600,
+    )
+  })
+})
+
+describe('restrictPosition', () => {
+  const smallMedia = { width: 100, height: 100 }
+  const largeCrop = { width: 200, height: 200 }
+
+  it('keeps a media smaller than the crop area inside of it with letterbox', () => {
+    expect(restrictPosition({ x: 30, y: -80 }, smallMedia, largeCrop, 1, 0, true)).toEqual({
+      x: 30,
+      y: -50,
+    })
+  })
+
+  it('keeps its previous result for a media smaller than the crop area without letterbox', () => {
+    expect(restrictPosition({ x: 30, y: -80 }, smallMedia, largeCrop, 1)).toEqual({
+      x: -50,
+      y: -50,
+    })
+  })
+
+  it('keeps the crop area inside a larger media', () => {
+    expect(restrictPosition({ x: 300, y: 0 }, mediaSize, cropSize, 1)).toEqual({ x: 300, y: 0 })
+    expect(restrictPosition({ x: 400, y: 200 }, mediaSize, cropSize, 1)).toEqual({
+      x: 300,
+      y: 150,
+    })
+  })
+})
+
+describe('restrictPositionInRotatedMedia', () => {
+  it('keeps every corner of the crop area on the rotated media', () => {
+    const zoom = getCoverZoom(mediaSize, cropSize, 10) * 1.2
+    const position = restrictPositionInRotatedMedia(
+      { x: 500, y: 500 },
+      mediaSize,
+      cropSize,
+      zoom,
+      10,
+    )
+    const rotRad = (10 * Math.PI) / 180
+    const corners = [
+      [-1, -1],
+      [1, -1],
+      [1, 1],
+      [-1, 1],
+    ].map(([sx, sy]) => ({
+      x: (sx! * cropSize.width) / 2 - position.x,
+      y: (sy! * cropSize.height) / 2 - position.y,
+    }))
+
+    corners.forEach(({ x, y }) => {
+      const localX = x * Math.cos(rotRad) + y * Math.sin(rotRad)
+      const localY = -x * Math.sin(rotRad) + y * Math.cos(rotRad)
+      expect(Math.abs(localX)).toBeLessThanOrEqual((mediaSize.width * zoom) / 2 + 1e-6)
+      expect(Math.abs(localY)).toBeLessThanOrEqual((mediaSize.height * zoom) / 2 + 1e-6)
+    })
+  })
+})
+
+describe('constrainRotation', () => {
+  it('applies the step, snap angles and limits', () => {
+    expect(constrainRotation(7.3, { step: 0.5 })).toBe(7.5)
+    expect(constrainRotation(87, { snapAngles: [0, 90] })).toBe(90)
+    expect(constrainRotation(80, { snapAngles: [0, 90] })).toBe(80)
+    expect(constrainRotation(60, { min: -45, max: 45 })).toBe(45)
+  })
+
+  it('goes past the rotation a change starts from', () => {
+    expect(constrainRotation(1, { step: 15, from: 0 })).toBe(15)
+    expect(constrainRotation(14, { step: 15, from: 15 })).toBe(0)
+    expect(constrainRotation(0.3, { step: 0.1, from: 0.2 })).toBeCloseTo(0.3)
+    expect(constrainRotation(1, { snapAngles: [0, 90], from: 0 })).toBe(1)
+    expect(constrainRotation(89, { snapAngles: [0, 90], from: 88 })).toBe(90)
+    expect(constrainRotation(-1, { step: 15, min: 0, from: 0 })).toBe(0)
+  })
+})
+
+describe('getCroppedAreaZoomRange', () => {
+  it('converts the cropped area limits to zoom limits', () => {
+    // 2 media pixels per container pixel at zoom 1, the crop area covers 800x600 media pixels
+    expect(
+      getCroppedAreaZoomRange(
+        mediaSize,
+        cropSize,
+        { width: 400, height: 400 },
+        { width: 1600, height: 1000 },
+      ),
+    ).toEqual({ minZoom: 0.6, maxZoom: 1.5 })
+    expect(getCroppedAreaZoomRange(mediaSize, cropSize)).toEqual({ minZoom: 0, maxZoom: Infinity })
+  })
+})
+
+describe('getCroppedAreaPadding', () => {
+  it('measures the area going beyond the media, as in the output', () => {
+    const area = { x: -100, y: 0, width: 2400, height: 1200 }
+    expect(getCroppedAreaPadding(area, { width: 2000, height: 1200 })).toEqual({
+      top: 0,
+      right: 300,
+      bottom: 0,
+      left: 100,
+    })
+    expect(
+      getCroppedAreaPadding(
+        area,
+        { width: 2000, height: 1200 },
+        { horizontal: true, vertical: false },
+      ),
+    ).toEqual({ top: 0, right: 100, bottom: 0, left: 300 })
+  })
+})